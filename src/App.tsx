@@ -1,39 +1,49 @@
 import React from "react";
-import { atomWithStorage } from "jotai/utils";
 import {
   StateNamespaceProvider,
   useStateNamespace,
   useStateNamespaceAtom,
   StateDebugger,
   useStateNamespaceReducerAtom,
+  useNamespaceReset,
+  useStateNamespaceSelector,
+  useNamespaceChildren,
 } from "./jotai-persist";
+import type { NamespaceSubtree } from "./namespace-tree";
+import { atomWithStorage, createJSONStorage } from "jotai/utils";
+import { atomWithShardedStorage } from "./sharded-storage";
+import type { WritePolicy } from "./write-policy";
 
 import "./App.css";
 
 // Reset button to clear persisted state
 function ResetButton() {
+  const { resetAll } = useNamespaceReset();
   return (
-    <button
-      onClick={() => {
-        localStorage.clear();
-        window.location.reload();
-      }}
-      className="reset-button"
-    >
+    <button onClick={resetAll} className="reset-button">
       Reset All State
     </button>
   );
 }
 
-// Create a persisted root atom for the entire app
-const persistedRootAtom = atomWithStorage<Record<string, unknown>>(
-  "app-state",
+// Create a persisted root atom for the entire app, one entry per namespace
+const persistedRootAtom = atomWithShardedStorage("app-state");
+
+// Mounted at the nested region so its state only lasts for the browser session
+const sessionRootAtom = atomWithStorage<Record<string, unknown>>(
+  "app-session-state",
   {},
+  createJSONStorage(() => sessionStorage),
 );
 
+// Coalesce rapid updates (typing, clicking) into fewer localStorage writes
+const writePolicy: WritePolicy = { type: "debounce", wait: 250, maxWait: 1000 };
+
 // Counter component with persisted state
 function Counter() {
-  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0, {
+    debugName: "Counter",
+  });
 
   return (
     <button
@@ -45,6 +55,49 @@ function Counter() {
   );
 }
 
+// Sums every count in a namespace subtree
+const sumCounts = (subtree: NamespaceSubtree): number =>
+  Object.values(subtree.children).reduce(
+    (sum, child) => sum + sumCounts(child),
+    typeof subtree.values.count === "number" ? subtree.values.count : 0,
+  );
+
+// Total of the counters in the current namespace and below
+function TotalCount() {
+  const total = useStateNamespaceSelector(null, sumCounts);
+  return <p>Total count: {total}</p>;
+}
+
+// Returns the first "tabN" name not taken by an existing tab
+function nextTabName(tabs: string[]) {
+  let index = tabs.length + 1;
+  while (tabs.includes(`tab${index}`)) index++;
+  return `tab${index}`;
+}
+
+// Tabs stored as child namespaces, each with its own counter
+function Tabs() {
+  const { children: tabs, create, duplicate, remove } = useNamespaceChildren();
+
+  return (
+    <div>
+      <button onClick={() => create(nextTabName(tabs))}>Add Tab</button>
+      {tabs.map((tab) => (
+        <StateNamespaceProvider key={tab} namespace={tab}>
+          <div className="region">
+            <h5 className="region-title">{tab}</h5>
+            <Counter />
+            <button onClick={() => duplicate(tab, nextTabName(tabs))}>
+              Duplicate
+            </button>
+            <button onClick={() => remove(tab)}>Close</button>
+          </div>
+        </StateNamespaceProvider>
+      ))}
+    </div>
+  );
+}
+
 // Container component for consistent styling
 interface ContainerProps {
   title: string;
@@ -85,6 +138,7 @@ function Content() {
       <Container title="Main Content">
         <div className="counter-margin">
           <Counter />
+          <TotalCount />
           <StateDebugger />
         </div>
 
@@ -99,7 +153,11 @@ function Content() {
             <StateDebugger />
 
             <div className="nested-content">
-              <StateNamespaceProvider namespace="nested">
+              <StateNamespaceProvider
+                namespace="nested"
+                rootAtom={sessionRootAtom}
+                storageName="sessionStorage"
+              >
                 <h6 className="nested-title">Nested Content</h6>
                 <Counter />
                 <StateDebugger />
@@ -115,7 +173,9 @@ function Content() {
 // Example of using the new namespace hooks
 function NamespacedCounter() {
   const namespace = useStateNamespace(["custom", "path"]);
-  const [count, setCount] = useStateNamespaceAtom(namespace, "count", 0);
+  const [count, setCount] = useStateNamespaceAtom(namespace, "count", 0, {
+    debugName: "NamespacedCounter",
+  });
 
   return (
     <button
@@ -210,7 +270,13 @@ function TodoList() {
 
 function App() {
   return (
-    <StateNamespaceProvider rootAtom={persistedRootAtom}>
+    <StateNamespaceProvider
+      rootAtom={persistedRootAtom}
+      storageName="localStorage"
+      writePolicy={writePolicy}
+      sync={{ channel: "app-state" }}
+      devtools={import.meta.env.DEV}
+    >
       <div className="app-wrapper">
         <div className="demo-description">
           <h2>Jotai Persistence Demo</h2>
@@ -223,12 +289,17 @@ function App() {
             <li>Nested state namespaces (main, primary, secondary, nested)</li>
             <li>Independent counters in different namespaces</li>
             <li>State debugging display for each namespace</li>
+            <li>Inline editing of state in the debugger during development</li>
+            <li>Writes and reducer actions logged to Redux DevTools</li>
             <li>Custom namespace paths</li>
+            <li>Nested content mounted on sessionStorage</li>
+            <li>Edits in other tabs merged per key</li>
+            <li>Tabs duplicated and closed along with their state</li>
           </ul>
           <p>
             Each counter maintains its own state within its namespace, and all
-            state is automatically persisted to localStorage under the
-            "app-state" key.
+            state is automatically persisted to localStorage with one
+            "app-state/..." entry per top-level namespace.
           </p>
         </div>
         <div className="reset-button-container">
@@ -244,6 +315,11 @@ function App() {
         <Container title="Custom Namespace Example">
           <NamespacedCounter />
         </Container>
+        <Container title="Tabs (Children Example)">
+          <StateNamespaceProvider namespace="tabs">
+            <Tabs />
+          </StateNamespaceProvider>
+        </Container>
         <Container title="Todo List (Reducer Example)">
           <TodoList />
         </Container>
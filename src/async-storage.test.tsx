@@ -0,0 +1,170 @@
+import { Suspense } from "react";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import {
+  StateNamespaceProvider,
+  useNamespaceHydrated,
+  useStateNamespaceAtom,
+} from "./jotai-persist";
+import {
+  atomWithAsyncStorage,
+  createMemoryAsyncStorage,
+  type AsyncStateStorage,
+} from "./async-storage";
+
+afterEach(cleanup);
+
+// Wraps a storage so the initial load resolves only when the test says so.
+function createDeferredStorage(storage: AsyncStateStorage) {
+  let resolveLoad!: () => void;
+  const loaded = new Promise<void>((resolve) => {
+    resolveLoad = resolve;
+  });
+  const deferred: AsyncStateStorage = {
+    ...storage,
+    getItem: async (key) => {
+      await loaded;
+      return storage.getItem(key);
+    },
+  };
+  return {
+    storage: deferred,
+    hydrate: () =>
+      act(async () => {
+        resolveLoad();
+        await loaded;
+      }),
+  };
+}
+
+function Counter() {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  const hydrated = useNamespaceHydrated();
+  return (
+    <button data-testid="count" onClick={() => setCount((c) => c + 1)}>
+      {hydrated ? count : "loading"}
+    </button>
+  );
+}
+
+describe("atomWithAsyncStorage", () => {
+  it("reports hydration once the stored tree has loaded", async () => {
+    const memory = createMemoryAsyncStorage({
+      state: { $layout: 1, $children: { main: { count: 3 } } },
+    });
+    const { storage, hydrate } = createDeferredStorage(memory);
+    const rootAtom = atomWithAsyncStorage("state", storage);
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+        <Counter />
+      </StateNamespaceProvider>,
+    );
+
+    expect(screen.getByTestId("count").textContent).toBe("loading");
+    await hydrate();
+    expect(screen.getByTestId("count").textContent).toBe("3");
+
+    fireEvent.click(screen.getByTestId("count"));
+    expect(screen.getByTestId("count").textContent).toBe("4");
+    expect(await memory.getItem("state")).toEqual({
+      $layout: 1,
+      $children: { main: { count: 4 } },
+    });
+  });
+
+  it("replays writes made before hydration on top of the loaded tree", async () => {
+    const memory = createMemoryAsyncStorage({
+      state: { main: { count: 3 }, other: { count: 9 } },
+    });
+    const { storage, hydrate } = createDeferredStorage(memory);
+    const rootAtom = atomWithAsyncStorage("state", storage);
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+        <Counter />
+      </StateNamespaceProvider>,
+    );
+
+    fireEvent.click(screen.getByTestId("count"));
+    expect(await memory.getItem("state")).toEqual({
+      main: { count: 3 },
+      other: { count: 9 },
+    });
+
+    await hydrate();
+    expect(screen.getByTestId("count").textContent).toBe("4");
+    // The tree is stored in the current layout along with the write.
+    expect(await memory.getItem("state")).toEqual({
+      $layout: 1,
+      $children: { main: { count: 4 }, other: { count: 9 } },
+      $migratedChildren: ["other"],
+    });
+  });
+
+  it("starts from an empty tree when the stored tree fails to load", async () => {
+    const memory = createMemoryAsyncStorage();
+    const error = new Error("storage unavailable");
+    const onError = vi.fn();
+    const rootAtom = atomWithAsyncStorage(
+      "state",
+      { ...memory, getItem: () => Promise.reject(error) },
+      { onError },
+    );
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+        <Counter />
+      </StateNamespaceProvider>,
+    );
+    await act(async () => {});
+    expect(screen.getByTestId("count").textContent).toBe("0");
+    expect(onError).toHaveBeenCalledWith(error);
+
+    fireEvent.click(screen.getByTestId("count"));
+    expect(screen.getByTestId("count").textContent).toBe("1");
+    expect(await memory.getItem("state")).toEqual({
+      $layout: 1,
+      $children: { main: { count: 1 } },
+    });
+  });
+
+  it("suspends until hydrated", async () => {
+    const memory = createMemoryAsyncStorage({ state: { count: 7 } });
+    const { storage, hydrate } = createDeferredStorage(memory);
+    const rootAtom = atomWithAsyncStorage("state", storage);
+
+    function SuspendingCounter() {
+      useNamespaceHydrated({ suspense: true });
+      const [count] = useStateNamespaceAtom(null, "count", 0);
+      return <span data-testid="suspended">{count}</span>;
+    }
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom}>
+        <Suspense fallback={<span data-testid="fallback" />}>
+          <SuspendingCounter />
+        </Suspense>
+      </StateNamespaceProvider>,
+    );
+
+    expect(screen.getByTestId("fallback")).toBeTruthy();
+    await hydrate();
+    expect(screen.getByTestId("suspended").textContent).toBe("7");
+  });
+
+  it("treats synchronous roots as hydrated", () => {
+    render(
+      <StateNamespaceProvider>
+        <Counter />
+      </StateNamespaceProvider>,
+    );
+    expect(screen.getByTestId("count").textContent).toBe("0");
+  });
+});
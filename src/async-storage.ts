@@ -0,0 +1,196 @@
+import { atom, type Atom, type SetStateAction } from "jotai";
+import { loadable } from "jotai/utils";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import { applyUpdate } from "./namespace-tree.js";
+
+/**
+ * Asynchronous storage for a whole state tree, such as IndexedDB
+ */
+export interface AsyncStateStorage {
+  getItem(key: string): Promise<Record<string, unknown> | null>;
+  setItem(key: string, value: Record<string, unknown>): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Hydration status atoms of an asynchronously loaded root atom
+ */
+export type NamespaceHydration = {
+  /** True once persisted state has loaded */
+  hydratedAtom: Atom<boolean>;
+  /** Suspends until persisted state has loaded */
+  hydrationAtom: Atom<Promise<void>>;
+};
+
+// Hydration atoms of each async root atom.
+const hydrations = new WeakMap<NamespaceRootAtom, NamespaceHydration>();
+
+/**
+ * Returns the hydration status atoms of a root atom.
+ * Root atoms backed by synchronous storage return null, they are always hydrated.
+ */
+export function getNamespaceHydration(
+  rootAtom: NamespaceRootAtom,
+): NamespaceHydration | null {
+  return hydrations.get(rootAtom) ?? null;
+}
+
+/**
+ * Creates an in-memory AsyncStateStorage, useful for tests.
+ * @param {Record<string, Record<string, unknown>>} [initial] - Initial entries
+ * @returns {AsyncStateStorage} The storage
+ */
+export function createMemoryAsyncStorage(
+  initial: Record<string, Record<string, unknown>> = {},
+): AsyncStateStorage {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates an AsyncStateStorage backed by an IndexedDB object store.
+ * State trees are stored as structured clones, without JSON serialization.
+ *
+ * @param {string} [dbName] - Database name
+ * @param {string} [storeName] - Object store name
+ * @returns {AsyncStateStorage} The storage
+ */
+export function createIndexedDBStorage(
+  dbName = "jotai-state",
+  storeName = "state",
+): AsyncStateStorage {
+  let dbPromise: Promise<IDBDatabase> | undefined;
+  const openDb = () =>
+    (dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    getItem: async (key) =>
+      ((await run("readonly", (store) => store.get(key))) as
+        Record<string, unknown> | undefined) ?? null,
+    setItem: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * Options for atomWithAsyncStorage
+ */
+export type AsyncStorageOptions = {
+  /** Called when loading or persisting the state fails, defaults to console.error */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * Creates a root atom persisted to asynchronous storage.
+ * Until the stored tree has loaded, reads see an empty tree and writes are
+ * queued, then replayed on top of the loaded tree so they never overwrite it.
+ * If the tree fails to load, the error is reported and the tree starts empty.
+ *
+ * @param {string} key - Storage key of the state tree
+ * @param {AsyncStateStorage} storage - The asynchronous storage
+ * @param {AsyncStorageOptions} [options] - Error handling options
+ * @returns {NamespaceRootAtom} The root atom
+ */
+export function atomWithAsyncStorage(
+  key: string,
+  storage: AsyncStateStorage,
+  options: AsyncStorageOptions = {},
+): NamespaceRootAtom {
+  const { onError = console.error } = options;
+
+  const persistedAtom = atom(() =>
+    storage.getItem(key).catch((error: unknown) => {
+      onError(error);
+      return null;
+    }),
+  );
+  const persistedLoadableAtom = loadable(persistedAtom);
+  const stateAtom = atom<Record<string, unknown> | undefined>(undefined);
+  const pendingAtom = atom<SetStateAction<Record<string, unknown>>[]>([]);
+
+  const hydratedAtom = atom(
+    (get) => get(persistedLoadableAtom).state !== "loading",
+  );
+  const hydrationAtom = atom(async (get) => {
+    await get(persistedAtom);
+  });
+
+  const rootAtom: NamespaceRootAtom = atom(
+    (get) => {
+      const state = get(stateAtom);
+      if (state) {
+        return state;
+      }
+      const persisted = get(persistedLoadableAtom);
+      const base = persisted.state === "hasData" ? (persisted.data ?? {}) : {};
+      return get(pendingAtom).reduce(applyUpdate, base);
+    },
+    (_get, set, update) => set(writeAtom, update),
+  );
+
+  // Writes go through a separate atom so queued writes can flush the root.
+  const writeAtom = atom(
+    null,
+    (get, set, update: SetStateAction<Record<string, unknown>>) => {
+      if (!get(hydratedAtom)) {
+        const pending = get(pendingAtom);
+        set(pendingAtom, [...pending, update]);
+        if (!pending.length) {
+          // Persist the queued writes as soon as the tree has loaded.
+          get(persistedAtom).then(
+            () => set(rootAtom, (state) => state),
+            () => {},
+          );
+        }
+        return;
+      }
+      const prevState = get(rootAtom);
+      const nextState = applyUpdate(prevState, update);
+      const hasPending = get(pendingAtom).length > 0;
+      if (nextState === prevState && !hasPending) {
+        return;
+      }
+      set(stateAtom, nextState);
+      if (hasPending) {
+        set(pendingAtom, []);
+      }
+      storage.setItem(key, nextState).catch(onError);
+    },
+  );
+
+  hydrations.set(rootAtom, { hydratedAtom, hydrationAtom });
+  return rootAtom;
+}
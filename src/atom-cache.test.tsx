@@ -0,0 +1,109 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { cleanup, render, fireEvent, screen } from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import { StateNamespaceProvider, useStateNamespaceAtom } from "./jotai-persist";
+import { getKeyAtom, getNodeAtom } from "./atom-cache";
+
+afterEach(cleanup);
+
+const renders = new Map<string, number>();
+
+function Counter({ name, testId }: { name: string; testId: string }) {
+  const [count, setCount] = useStateNamespaceAtom(null, name, 0);
+  renders.set(testId, (renders.get(testId) ?? 0) + 1);
+  return (
+    <button data-testid={testId} onClick={() => setCount((c) => c + 1)}>
+      {count}
+    </button>
+  );
+}
+
+describe("atom cache", () => {
+  it("returns the same atoms for the same root, path and key", () => {
+    const rootAtom = atom<Record<string, unknown>>({});
+    expect(getNodeAtom(rootAtom, [])).toBe(rootAtom);
+    expect(getNodeAtom(rootAtom, ["a", "b"])).toBe(
+      getNodeAtom(rootAtom, ["a", "b"]),
+    );
+    expect(getKeyAtom(rootAtom, ["a"], "count")).toBe(
+      getKeyAtom(rootAtom, ["a"], "count"),
+    );
+    expect(getKeyAtom(rootAtom, ["a"], "count")).not.toBe(
+      getKeyAtom(atom({}), ["a"], "count"),
+    );
+  });
+
+  it("labels atoms with their path and key", () => {
+    const rootAtom = atom<Record<string, unknown>>({});
+    expect(getNodeAtom(rootAtom, ["main", "nested"]).debugLabel).toBe(
+      "main/nested",
+    );
+    expect(getKeyAtom(rootAtom, ["main", "nested"], "count").debugLabel).toBe(
+      "main/nested:count",
+    );
+    expect(getKeyAtom(rootAtom, [], "title").debugLabel).toBe("title");
+  });
+
+  it("only notifies readers of the written key", () => {
+    renders.clear();
+    render(
+      <StateNamespaceProvider rootAtom={atom({})} namespace="main">
+        <Counter name="a" testId="a" />
+        <Counter name="b" testId="b" />
+        <StateNamespaceProvider namespace="nested">
+          <Counter name="a" testId="nested-a" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+    const initial = new Map(renders);
+
+    fireEvent.click(screen.getByTestId("a"));
+    expect(screen.getByTestId("a").textContent).toBe("1");
+    expect(renders.get("a")).toBe(initial.get("a")! + 1);
+    expect(renders.get("b")).toBe(initial.get("b"));
+    expect(renders.get("nested-a")).toBe(initial.get("nested-a"));
+  });
+});
+
+describe("atom cache benchmark", () => {
+  const namespaces = 50;
+  const keysPerNamespace = 50;
+
+  function Namespace({ index }: { index: number }) {
+    return (
+      <StateNamespaceProvider namespace={`ns${index}`}>
+        {Array.from({ length: keysPerNamespace }, (_, key) => (
+          <Counter key={key} name={`k${key}`} testId={`${index}-${key}`} />
+        ))}
+      </StateNamespaceProvider>
+    );
+  }
+
+  it("writes one key of a tree with thousands of mounted keys", () => {
+    renders.clear();
+    const rootAtom = atom<Record<string, unknown>>({});
+    const store = createStore();
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom}>
+          {Array.from({ length: namespaces }, (_, index) => (
+            <Namespace key={index} index={index} />
+          ))}
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+    expect(renders.size).toBe(namespaces * keysPerNamespace);
+    const initial = new Map(renders);
+
+    const writes = 20;
+    for (let i = 0; i < writes; i++) {
+      fireEvent.click(screen.getByTestId(`${i}-${i}`));
+    }
+
+    const rerendered = [...renders].filter(
+      ([testId, count]) => count !== initial.get(testId),
+    );
+    expect(rerendered).toHaveLength(writes);
+    expect(screen.getByTestId("0-0").textContent).toBe("1");
+  });
+});
@@ -0,0 +1,116 @@
+import { atom, type Atom } from "jotai";
+import { selectAtom } from "jotai/utils";
+import { getKeyVersion } from "./migrations.js";
+import { getChildNodes, getKeyValue } from "./namespace-tree.js";
+
+type TreeAtom = Atom<Record<string, unknown>>;
+
+/**
+ * The raw stored value of a key and the schema version it was stored under
+ */
+export type StoredEntry = {
+  stored: unknown;
+  version: number;
+};
+
+// Shared by missing nodes so they compare equal between reads.
+const emptyNode: Record<string, unknown> = Object.freeze({}) as Record<
+  string,
+  unknown
+>;
+
+// Atoms created per root atom, keyed by path or path and key.
+const nodeAtoms = new WeakMap<TreeAtom, Map<string, TreeAtom>>();
+const keyAtoms = new WeakMap<TreeAtom, Map<string, Atom<StoredEntry>>>();
+
+/**
+ * Returns the label of a key, such as "main/nested:count", used as the
+ * debugLabel of its atom.
+ */
+export function formatKeyLabel(path: string[], key: string): string {
+  return path.length ? `${path.join("/")}:${key}` : key;
+}
+
+/**
+ * Formats a namespace path for display, such as "/main/nested".
+ */
+export function formatPath(path: string[]): string {
+  return `/${path.join("/")}`;
+}
+
+/**
+ * Empty tree read in place of key storage a provider doesn't have.
+ */
+export const noKeysAtom = atom<Record<string, unknown>>({});
+
+function getCache<T>(
+  caches: WeakMap<TreeAtom, Map<string, T>>,
+  root: TreeAtom,
+) {
+  let cache = caches.get(root);
+  if (!cache) {
+    cache = new Map();
+    caches.set(root, cache);
+  }
+  return cache;
+}
+
+/**
+ * Returns the shared atom reading the namespace node at path.
+ * Each node atom only depends on its parent's, and keeps its value while the
+ * node is unchanged, so a write only recomputes atoms along its own path.
+ *
+ * @param {TreeAtom} rootAtom - The atom holding the state tree
+ * @param {string[]} path - Namespace path segments
+ * @returns {TreeAtom} The node atom
+ */
+export function getNodeAtom(rootAtom: TreeAtom, path: string[]): TreeAtom {
+  if (!path.length) {
+    return rootAtom;
+  }
+  const cache = getCache(nodeAtoms, rootAtom);
+  const id = JSON.stringify(path);
+  let nodeAtom = cache.get(id);
+  if (!nodeAtom) {
+    const parentAtom = getNodeAtom(rootAtom, path.slice(0, -1));
+    const segment = path[path.length - 1];
+    nodeAtom = atom(
+      (get) => getChildNodes(get(parentAtom))[segment] || emptyNode,
+    );
+    nodeAtom.debugLabel = path.join("/");
+    cache.set(id, nodeAtom);
+  }
+  return nodeAtom;
+}
+
+/**
+ * Returns the shared atom reading a key's stored entry. It only notifies
+ * subscribers when the stored value or its version changes.
+ *
+ * @param {TreeAtom} rootAtom - The atom holding the state tree
+ * @param {string[]} path - Namespace path of the key
+ * @param {string} key - The key
+ * @returns {Atom<StoredEntry>} The key atom
+ */
+export function getKeyAtom(
+  rootAtom: TreeAtom,
+  path: string[],
+  key: string,
+): Atom<StoredEntry> {
+  const cache = getCache(keyAtoms, rootAtom);
+  const id = JSON.stringify([...path, key]);
+  let keyAtom = cache.get(id);
+  if (!keyAtom) {
+    keyAtom = selectAtom(
+      getNodeAtom(rootAtom, path),
+      (node): StoredEntry => ({
+        stored: getKeyValue(node, key),
+        version: getKeyVersion(node, key),
+      }),
+      (a, b) => a.stored === b.stored && a.version === b.version,
+    );
+    keyAtom.debugLabel = formatKeyLabel(path, key);
+    cache.set(id, keyAtom);
+  }
+  return keyAtom;
+}
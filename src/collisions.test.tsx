@@ -0,0 +1,202 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { cleanup, render, fireEvent, screen } from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import {
+  StateNamespaceProvider,
+  useStateNamespaceAtom,
+  useStateNamespaceReducerAtom,
+} from "./jotai-persist";
+import { createCollisionDetector } from "./collisions";
+import { getKeyValue, migrateTreeLayout } from "./namespace-tree";
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+function Counter({ name, testId }: { name: string; testId: string }) {
+  const [count, setCount] = useStateNamespaceAtom(null, name, 0);
+  return (
+    <button data-testid={testId} onClick={() => setCount((c) => c + 1)}>
+      {count}
+    </button>
+  );
+}
+
+describe("namespace layout", () => {
+  it("keeps a key and a child namespace of the same name apart", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const rootAtom = atom<Record<string, unknown>>({});
+    const store = createStore();
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+          <Counter name="primary" testId="key" />
+          <StateNamespaceProvider namespace="primary">
+            <Counter name="count" testId="child" />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    fireEvent.click(screen.getByTestId("key"));
+    fireEvent.click(screen.getByTestId("child"));
+    fireEvent.click(screen.getByTestId("child"));
+    expect(screen.getByTestId("key").textContent).toBe("1");
+    expect(screen.getByTestId("child").textContent).toBe("2");
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: {
+        main: { primary: 1, $children: { primary: { count: 2 } } },
+      },
+    });
+  });
+
+  it("migrates trees storing namespaces next to keys", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      title: "legacy",
+      main: {
+        count: 2,
+        point: { x: 1 },
+        $versions: { point: 1 },
+        nested: { count: 3 },
+      },
+    });
+    const store = createStore();
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+          <Counter name="count" testId="main" />
+          <StateNamespaceProvider namespace="nested">
+            <Counter name="count" testId="nested" />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    expect(screen.getByTestId("main").textContent).toBe("2");
+    expect(screen.getByTestId("nested").textContent).toBe("3");
+
+    fireEvent.click(screen.getByTestId("nested"));
+    expect(store.get(rootAtom)).toEqual({
+      title: "legacy",
+      $layout: 1,
+      $children: {
+        main: {
+          count: 2,
+          point: { x: 1 },
+          $versions: { point: 1 },
+          $children: { nested: { count: 4 } },
+        },
+      },
+    });
+  });
+
+  it("restores unversioned object values read as keys", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      main: { form: { name: "x", address: { city: "y" } }, count: 2 },
+    });
+    const store = createStore();
+    function Form() {
+      const [form, dispatch] = useStateNamespaceReducerAtom(
+        null,
+        "form",
+        (state: { name: string }, name: string) => ({ ...state, name }),
+        { name: "" },
+      );
+      return (
+        <button data-testid="form" onClick={() => dispatch("z")}>
+          {form.name}
+        </button>
+      );
+    }
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+          <Form />
+          <Counter name="count" testId="count" />
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    expect(screen.getByTestId("form").textContent).toBe("x");
+    // The value is moved back from the children once mounted, and main is
+    // no longer listed as it holds written keys.
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: {
+        main: { form: { name: "x", address: { city: "y" } }, count: 2 },
+      },
+    });
+
+    fireEvent.click(screen.getByTestId("form"));
+    fireEvent.click(screen.getByTestId("count"));
+    expect(screen.getByTestId("form").textContent).toBe("z");
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: {
+        main: { form: { name: "z", address: { city: "y" } }, count: 3 },
+      },
+    });
+  });
+
+  it("drops metadata written into restored object values", () => {
+    const node = {
+      $children: { filter: { tag: "x", $accessed: { tag: 5 } } },
+      $migratedChildren: ["filter"],
+    };
+    expect(getKeyValue(node, "filter")).toEqual({ tag: "x" });
+  });
+
+  it("leaves migrated trees unchanged", () => {
+    const state = migrateTreeLayout({ main: { count: 1 } });
+    expect(migrateTreeLayout(state)).toBe(state);
+  });
+});
+
+describe("createCollisionDetector", () => {
+  it("warns once when a key and a child namespace share a name", () => {
+    const warn = vi.fn();
+    const detector = createCollisionDetector(warn);
+
+    const unregister = detector.register(["main"], "primary", "key");
+    detector.register(["main"], "primary", "namespace");
+    detector.register(["main"], "primary", "key");
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      "main/primary is used as both a key and a child namespace",
+    );
+
+    unregister();
+    detector.register(["other"], "primary", "key");
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("warns about keys using reserved names", () => {
+    const warn = vi.fn();
+    createCollisionDetector(warn).register([], "$children", "key");
+    expect(warn).toHaveBeenCalledWith(
+      "key $children uses a name reserved for namespace metadata",
+    );
+  });
+
+  it("is used by providers in development", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    render(
+      <StateNamespaceProvider rootAtom={atom({})} namespace="main">
+        <Counter name="primary" testId="key" />
+        <StateNamespaceProvider namespace="primary">
+          <Counter name="count" testId="child" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+
+    expect(warn).toHaveBeenCalledWith(
+      "main/primary is used as both a key and a child namespace",
+    );
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * What a name is used for within a namespace node
+ */
+export type NamespaceNameKind = "key" | "namespace";
+
+/**
+ * Tracks the key and child namespace names in use under each namespace
+ */
+export type CollisionDetector = {
+  /** Registers a name in use under path, returning a function that unregisters it */
+  register: (
+    path: string[],
+    name: string,
+    kind: NamespaceNameKind,
+  ) => () => void;
+};
+
+/**
+ * Creates a detector warning when a key and a child namespace of the same
+ * namespace share a name, or a key uses a reserved `$` name. Both are stored
+ * apart, but such trees read ambiguously when inspected or migrated from the
+ * layout that stored them side by side.
+ *
+ * @param {Function} [warn] - Receives collision messages, defaults to console.warn
+ * @returns {CollisionDetector} The collision detector
+ */
+export function createCollisionDetector(
+  warn: (message: string) => void = console.warn,
+): CollisionDetector {
+  const names = new Map<string, Map<NamespaceNameKind, number>>();
+  const warned = new Set<string>();
+
+  const warnOnce = (id: string, message: string) => {
+    if (!warned.has(id)) {
+      warned.add(id);
+      warn(message);
+    }
+  };
+
+  return {
+    register: (path, name, kind) => {
+      const location = [...path, name].join("/");
+      if (kind === "key" && name.startsWith("$")) {
+        warnOnce(
+          `reserved:${location}`,
+          `key ${location} uses a name reserved for namespace metadata`,
+        );
+      }
+
+      const id = JSON.stringify([...path, name]);
+      const kinds = names.get(id) ?? new Map<NamespaceNameKind, number>();
+      names.set(id, kinds);
+      kinds.set(kind, (kinds.get(kind) ?? 0) + 1);
+      if (kinds.has("key") && kinds.has("namespace")) {
+        warnOnce(
+          `collision:${location}`,
+          `${location} is used as both a key and a child namespace`,
+        );
+      }
+
+      return () => {
+        const count = (kinds.get(kind) ?? 1) - 1;
+        if (count) {
+          kinds.set(kind, count);
+        } else {
+          kinds.delete(kind);
+        }
+        if (!kinds.size) {
+          names.delete(id);
+        }
+      };
+    },
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Marker starting compressed text. Compressed characters are never below
+ * 32, so it can't begin uncompressed JSON or compressed output.
+ */
+export const COMPRESSED_PREFIX = "\u0001";
+
+// Output characters hold 15 bits each, offset to stay clear of control
+// characters and surrogates, so the text survives any storage backend.
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+// Code 0 ends the stream, the alphabet starts at 1.
+const END_CODE = 0;
+
+const bitLength = (value: number) => 32 - Math.clz32(value);
+
+/**
+ * Compresses text with LZW, writing the alphabet up front and packing codes
+ * into characters. Returns the text prefixed with COMPRESSED_PREFIX.
+ */
+export function compressText(text: string): string {
+  const output: string[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  const write = (value: number, bits: number) => {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      buffer = (buffer << 1) | ((value >> bit) & 1);
+      if (++bufferBits === BITS_PER_CHAR) {
+        output.push(String.fromCharCode(buffer + CHAR_OFFSET));
+        buffer = 0;
+        bufferBits = 0;
+      }
+    }
+  };
+
+  const alphabet = [...new Set(text.split(""))];
+  write(alphabet.length, 17);
+  for (const char of alphabet) {
+    write(char.charCodeAt(0), 16);
+  }
+
+  const dictionary = new Map(alphabet.map((char, i) => [char, i + 1]));
+  let nextCode = alphabet.length + 1;
+  let emitted = 0;
+  // Widths follow the decoder, which adds each entry one code later.
+  const emit = (code: number) => {
+    write(code, bitLength(alphabet.length + 1 + emitted++));
+  };
+
+  let word = "";
+  for (const char of text.split("")) {
+    const extended = word + char;
+    if (dictionary.has(extended)) {
+      word = extended;
+      continue;
+    }
+    emit(dictionary.get(word)!);
+    dictionary.set(extended, nextCode++);
+    word = char;
+  }
+  if (word) {
+    emit(dictionary.get(word)!);
+  }
+  emit(END_CODE);
+  if (bufferBits) {
+    write(0, BITS_PER_CHAR - bufferBits);
+  }
+  return COMPRESSED_PREFIX + output.join("");
+}
+
+/**
+ * Decompresses text written by compressText. Text without COMPRESSED_PREFIX
+ * is returned as is, so values stored before compression stay readable.
+ */
+export function decompressText(text: string): string {
+  if (!text.startsWith(COMPRESSED_PREFIX)) {
+    return text;
+  }
+  let position = COMPRESSED_PREFIX.length;
+  let buffer = 0;
+  let bufferBits = 0;
+  const read = (bits: number) => {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      if (!bufferBits) {
+        if (position >= text.length) {
+          throw new Error("compressed text is truncated");
+        }
+        buffer = text.charCodeAt(position++) - CHAR_OFFSET;
+        bufferBits = BITS_PER_CHAR;
+      }
+      value = (value << 1) | ((buffer >> --bufferBits) & 1);
+    }
+    return value;
+  };
+
+  const dictionary = [""];
+  const alphabetLength = read(17);
+  for (let i = 0; i < alphabetLength; i++) {
+    dictionary.push(String.fromCharCode(read(16)));
+  }
+
+  const output: string[] = [];
+  let previous: string | null = null;
+  for (;;) {
+    const code = read(
+      bitLength(dictionary.length + (previous === null ? 0 : 1)),
+    );
+    if (code === END_CODE) {
+      break;
+    }
+    let entry: string;
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length && previous !== null) {
+      entry = previous + previous[0];
+    } else {
+      throw new Error("compressed text is corrupt");
+    }
+    if (previous !== null) {
+      dictionary.push(previous + entry[0]);
+    }
+    output.push(entry);
+    previous = entry;
+  }
+  return output.join("");
+}
@@ -0,0 +1,236 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import { atomWithStorage } from "jotai/utils";
+import { StateNamespaceProvider, useStateNamespaceAtom } from "./jotai-persist";
+import {
+  applyPatches,
+  createMergingJSONStorage,
+  createStorageEventTransport,
+  diffTrees,
+  type SyncMessage,
+  type SyncTransport,
+} from "./cross-tab-sync";
+
+afterEach(cleanup);
+
+// Transports connecting "tabs" within the test, delivering synchronously.
+function createBus() {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  return (): SyncTransport => {
+    let own: ((message: SyncMessage) => void) | undefined;
+    return {
+      post: (message) => {
+        for (const listener of listeners) {
+          if (listener !== own) listener(message);
+        }
+      },
+      subscribe: (listener) => {
+        own = listener;
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+  };
+}
+
+function Counter({ tab, name }: { tab: string; name: string }) {
+  const [count, setCount] = useStateNamespaceAtom(null, name, 0);
+  return (
+    <button
+      data-testid={`${tab}-${name}`}
+      onClick={() => setCount((c) => c + 1)}
+    >
+      {count}
+    </button>
+  );
+}
+
+function renderTab(tab: string, transport: SyncTransport) {
+  const rootAtom = atom<Record<string, unknown>>({});
+  const store = createStore();
+  render(
+    <Provider store={store}>
+      <StateNamespaceProvider
+        rootAtom={rootAtom}
+        sync={{ channel: "test", transport }}
+      >
+        <StateNamespaceProvider namespace="main">
+          <Counter tab={tab} name="a" />
+          <Counter tab={tab} name="b" />
+        </StateNamespaceProvider>
+        <StateNamespaceProvider namespace="local" sync={false}>
+          <Counter tab={tab} name="c" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    </Provider>,
+  );
+}
+
+const click = (testId: string) => fireEvent.click(screen.getByTestId(testId));
+const text = (testId: string) => screen.getByTestId(testId).textContent;
+
+describe("diffTrees and applyPatches", () => {
+  const base = { $children: { main: { a: 1, b: 1 } } };
+
+  it("merges concurrent edits to different keys", () => {
+    const remote = { $children: { main: { a: 2, b: 1 } } };
+    const local = { $children: { main: { a: 1, b: 5 } } };
+
+    const patches = diffTrees(base, remote);
+    expect(patches).toEqual([{ path: ["main"], key: "a", base: 1, value: 2 }]);
+    expect(applyPatches(local, patches)).toEqual({
+      $children: { main: { a: 2, b: 5 } },
+    });
+  });
+
+  it("resolves edits to the same key with the conflict hook", () => {
+    const remote = { $children: { main: { a: 2, b: 1 } } };
+    const local = { $children: { main: { a: 3, b: 1 } } };
+    const onConflict = vi.fn(() => 10);
+
+    expect(applyPatches(local, diffTrees(base, remote), onConflict)).toEqual({
+      $children: { main: { a: 10, b: 1 } },
+    });
+    expect(onConflict).toHaveBeenCalledWith({
+      path: ["main"],
+      key: "a",
+      base: 1,
+      local: 3,
+      remote: 2,
+    });
+  });
+
+  it("removes keys and the namespaces they leave empty", () => {
+    const patches = diffTrees(base, {});
+    expect(applyPatches(base, patches)).toEqual({});
+  });
+});
+
+describe("StateNamespaceProvider sync", () => {
+  it("applies edits from other tabs", () => {
+    const connect = createBus();
+    renderTab("one", connect());
+    renderTab("two", connect());
+
+    click("one-a");
+    click("two-b");
+    click("two-b");
+    expect(text("one-a")).toBe("1");
+    expect(text("one-b")).toBe("2");
+    expect(text("two-a")).toBe("1");
+    expect(text("two-b")).toBe("2");
+  });
+
+  it("does not sync subtrees that opt out", () => {
+    const connect = createBus();
+    renderTab("one", connect());
+    renderTab("two", connect());
+
+    click("one-c");
+    expect(text("one-c")).toBe("1");
+    expect(text("two-c")).toBe("0");
+  });
+
+  it("keeps maintenance writes, such as access stamps, local", () => {
+    const post = vi.fn<(message: SyncMessage) => void>();
+    render(
+      <StateNamespaceProvider
+        rootAtom={atom<Record<string, unknown>>({
+          $layout: 1,
+          $children: { main: { a: 1 } },
+        })}
+        sync={{
+          channel: "test",
+          transport: { post, subscribe: () => () => {} },
+        }}
+        gc={{ retention: 1000 }}
+      >
+        <StateNamespaceProvider namespace="main">
+          <Counter tab="one" name="a" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+    expect(post).not.toHaveBeenCalled();
+
+    click("one-a");
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0].patches).toEqual([
+      { path: ["main"], key: "a", base: 1, value: 2 },
+    ]);
+  });
+});
+
+describe("createMergingJSONStorage", () => {
+  afterEach(() => localStorage.clear());
+
+  it("merges trees other tabs write to an atomWithStorage root", () => {
+    const rootAtom = atomWithStorage(
+      "app-state",
+      {},
+      createMergingJSONStorage(),
+    );
+    render(
+      <StateNamespaceProvider
+        rootAtom={rootAtom}
+        sync={{ channel: "test", transport: createBus()() }}
+      >
+        <StateNamespaceProvider namespace="main">
+          <Counter tab="two" name="a" />
+          <Counter tab="two" name="b" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+    click("two-b");
+
+    // Another tab that hadn't seen the edit to b yet writes its tree.
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "app-state",
+          oldValue: "{}",
+          newValue: JSON.stringify({
+            $layout: 1,
+            $children: { main: { a: 1 } },
+          }),
+          storageArea: localStorage,
+        }),
+      );
+    });
+    expect(text("two-a")).toBe("1");
+    expect(text("two-b")).toBe("1");
+  });
+});
+
+describe("createStorageEventTransport", () => {
+  it("passes messages through storage events", () => {
+    const transport = createStorageEventTransport("sync-test");
+    const listener = vi.fn();
+    const unsubscribe = transport.subscribe(listener);
+    const message: SyncMessage = {
+      source: "other",
+      patches: [{ path: [], key: "a", value: 1 }],
+    };
+
+    // Storage events only fire in other tabs, so dispatch one by hand.
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "sync-test",
+          newValue: JSON.stringify(message),
+        }),
+      );
+    });
+    expect(listener).toHaveBeenCalledWith(message);
+
+    transport.post(message);
+    expect(localStorage.getItem("sync-test")).toBeNull();
+    unsubscribe();
+  });
+});
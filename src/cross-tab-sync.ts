@@ -0,0 +1,391 @@
+import { atom } from "jotai";
+import { createJSONStorage } from "jotai/utils";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import {
+  CHILDREN_KEY,
+  getChildNodes,
+  getNamespaceNode,
+  isMaintenanceUpdate,
+  removeDeepNode,
+  updateDeepNode,
+} from "./namespace-tree.js";
+
+/**
+ * A change to a single key, or metadata entry, of a namespace node
+ */
+export type TreePatch = {
+  path: string[];
+  key: string;
+  /** The value before the change, absent if the key did not exist */
+  base?: unknown;
+  /** The value after the change, absent if the key was removed */
+  value?: unknown;
+};
+
+/**
+ * Patches sent from one tab to the others
+ */
+export type SyncMessage = {
+  /** Id of the sending sync instance, so tabs ignore their own messages */
+  source: string;
+  patches: TreePatch[];
+};
+
+/**
+ * Carries sync messages between tabs
+ */
+export interface SyncTransport {
+  post(message: SyncMessage): void;
+  /** Listens for messages from other tabs, returning a function that stops */
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+}
+
+/**
+ * A remote edit to a key that was also changed locally
+ */
+export type SyncConflict = {
+  path: string[];
+  key: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+};
+
+/**
+ * Options for cross-tab synchronization of a state tree
+ */
+export type CrossTabSyncOptions = {
+  /** Name of the channel tabs sync over */
+  channel: string;
+  /** Transport carrying patches, defaults to BroadcastChannel or storage events */
+  transport?: SyncTransport;
+  /**
+   * Resolves a remote edit to a key changed locally since the remote tab
+   * last saw it, returning the value to keep. The remote value wins by default.
+   */
+  onConflict?: (conflict: SyncConflict) => unknown;
+};
+
+/**
+ * Creates a transport over a BroadcastChannel.
+ * @param {string} name - The channel name
+ * @returns {SyncTransport} The transport
+ */
+export function createBroadcastChannelTransport(name: string): SyncTransport {
+  let channel: BroadcastChannel | null = null;
+  const listeners = new Set<(message: SyncMessage) => void>();
+  const getChannel = () => {
+    if (!channel) {
+      channel = new BroadcastChannel(name);
+      channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+        listeners.forEach((listener) => listener(event.data));
+      };
+    }
+    return channel;
+  };
+
+  return {
+    post: (message) => getChannel().postMessage(message),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      getChannel();
+      return () => {
+        listeners.delete(listener);
+        if (!listeners.size && channel) {
+          channel.close();
+          channel = null;
+        }
+      };
+    },
+  };
+}
+
+/**
+ * Creates a transport passing messages through a Web Storage entry, for
+ * browsers without BroadcastChannel. Other tabs receive them as storage events.
+ *
+ * @param {string} key - The storage entry messages are written to
+ * @param {Storage} [storage] - The storage, defaults to localStorage
+ * @returns {SyncTransport} The transport
+ */
+export function createStorageEventTransport(
+  key: string,
+  storage: Storage = localStorage,
+): SyncTransport {
+  return {
+    post: (message) => {
+      // Writing then removing the entry fires the event without keeping data.
+      storage.setItem(key, JSON.stringify(message));
+      storage.removeItem(key);
+    },
+    subscribe: (listener) => {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === key && event.newValue) {
+          listener(JSON.parse(event.newValue));
+        }
+      };
+      window.addEventListener("storage", onStorage);
+      return () => window.removeEventListener("storage", onStorage);
+    },
+  };
+}
+
+// The storage type atomWithStorage takes, which jotai/utils doesn't export.
+type TreeStorage = ReturnType<
+  typeof createJSONStorage<Record<string, unknown>>
+>;
+
+/**
+ * Creates JSON storage for an atomWithStorage root synced with the sync prop.
+ * atomWithStorage replaces the whole tree when another tab writes it, losing
+ * local edits to other keys. With this storage, storage events only bring in
+ * keys the other tab changed and this tab didn't. Removals and conflicting
+ * edits are left to the sync patches, which tell them apart from keys the
+ * other tab hadn't seen yet.
+ *
+ * @example
+ * const rootAtom = atomWithStorage("app-state", {}, createMergingJSONStorage());
+ *
+ * @param {Storage} [storage] - The storage, defaults to localStorage
+ * @returns {TreeStorage} Storage to pass to atomWithStorage
+ */
+export function createMergingJSONStorage(
+  storage: Storage = localStorage,
+): TreeStorage {
+  const jsonStorage = createJSONStorage<Record<string, unknown>>(() => storage);
+  // The tree this tab last read or wrote, per storage key.
+  const localTrees = new Map<string, Record<string, unknown>>();
+
+  return {
+    getItem: (key, initialValue) => {
+      const tree = jsonStorage.getItem(key, initialValue);
+      localTrees.set(key, tree);
+      return tree;
+    },
+    setItem: (key, tree) => {
+      localTrees.set(key, tree);
+      jsonStorage.setItem(key, tree);
+    },
+    removeItem: (key) => {
+      localTrees.delete(key);
+      jsonStorage.removeItem(key);
+    },
+    subscribe: (key, callback, initialValue) => {
+      const parse = (text: string | null) => {
+        try {
+          return text ? (JSON.parse(text) as Record<string, unknown>) : {};
+        } catch {
+          return {};
+        }
+      };
+      const onStorage = (event: StorageEvent) => {
+        if (event.storageArea !== storage || event.key !== key) {
+          return;
+        }
+        const patches = diffTrees(
+          parse(event.oldValue),
+          parse(event.newValue),
+        ).filter((patch) => "value" in patch);
+        const local = localTrees.get(key) ?? initialValue;
+        const merged = applyPatches(local, patches, (c) => c.local);
+        if (merged !== local) {
+          localTrees.set(key, merged);
+          callback(merged);
+        }
+      };
+      window.addEventListener("storage", onStorage);
+      return () => window.removeEventListener("storage", onStorage);
+    },
+  };
+}
+
+// Uses BroadcastChannel where available, falling back to storage events.
+function createDefaultTransport(channel: string): SyncTransport {
+  return typeof BroadcastChannel === "function"
+    ? createBroadcastChannelTransport(channel)
+    : createStorageEventTransport(`${channel}/sync`);
+}
+
+function isUnder(path: string[], prefix: string[]) {
+  return path.length >= prefix.length && prefix.every((s, i) => path[i] === s);
+}
+
+/**
+ * Lists the key-level changes between two state trees. Unchanged subtrees
+ * are skipped by identity.
+ *
+ * @param prev - The tree before the change
+ * @param next - The tree after the change
+ * @returns The patches turning prev into next
+ */
+export function diffTrees(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+): TreePatch[] {
+  const patches: TreePatch[] = [];
+  const visit = (
+    prevNode: Record<string, unknown>,
+    nextNode: Record<string, unknown>,
+    path: string[],
+  ) => {
+    if (prevNode === nextNode) {
+      return;
+    }
+    const names = new Set([...Object.keys(prevNode), ...Object.keys(nextNode)]);
+    names.delete(CHILDREN_KEY);
+    for (const key of names) {
+      if (prevNode[key] !== nextNode[key]) {
+        const patch: TreePatch = { path, key };
+        if (key in prevNode) patch.base = prevNode[key];
+        if (key in nextNode) patch.value = nextNode[key];
+        patches.push(patch);
+      }
+    }
+    const prevChildren = getChildNodes(prevNode);
+    const nextChildren = getChildNodes(nextNode);
+    const segments = new Set([
+      ...Object.keys(prevChildren),
+      ...Object.keys(nextChildren),
+    ]);
+    for (const segment of segments) {
+      visit(prevChildren[segment] || {}, nextChildren[segment] || {}, [
+        ...path,
+        segment,
+      ]);
+    }
+  };
+  visit(prev, next, []);
+  return patches;
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Sets or removes a key, dropping the namespace node if left empty.
+function setKey(
+  state: Record<string, unknown>,
+  path: string[],
+  key: string,
+  value: unknown,
+): Record<string, unknown> {
+  if (value !== undefined) {
+    return updateDeepNode(state, path, (node) => ({ ...node, [key]: value }));
+  }
+  const next = updateDeepNode(state, path, (node) => {
+    const updated = { ...node };
+    delete updated[key];
+    return updated;
+  });
+  return Object.keys(getNamespaceNode(next, path)).length
+    ? next
+    : removeDeepNode(next, path);
+}
+
+/**
+ * Applies remote patches to a state tree. A patch applies as is when the
+ * local value still equals its base; otherwise onConflict picks the value.
+ *
+ * @param state - The local state tree
+ * @param patches - Remote patches
+ * @param onConflict - Resolves conflicting edits, the remote value wins by default
+ * @returns The merged tree
+ */
+export function applyPatches(
+  state: Record<string, unknown>,
+  patches: TreePatch[],
+  onConflict: (conflict: SyncConflict) => unknown = (c) => c.remote,
+): Record<string, unknown> {
+  let next = state;
+  for (const { path, key, base, value } of patches) {
+    const local = getNamespaceNode(next, path)[key];
+    if (isSameValue(local, value)) {
+      continue;
+    }
+    // Conflicting metadata, such as version stamps, follows the remote tab.
+    const resolved =
+      isSameValue(local, base) || key.startsWith("$")
+        ? value
+        : onConflict({ path, key, base, local, remote: value });
+    if (!isSameValue(local, resolved)) {
+      next = setKey(next, path, key, resolved);
+    }
+  }
+  return next;
+}
+
+/**
+ * Cross-tab synchronization of a state tree
+ */
+export type CrossTabSync = {
+  /** View of the root atom broadcasting writes and applying remote patches */
+  syncAtom: NamespaceRootAtom;
+  /** Stops syncing a subtree, returning a function that resumes it */
+  exclude: (path: string[]) => () => void;
+};
+
+/**
+ * Synchronizes a state tree across tabs by exchanging key-level patches, so
+ * tabs editing different keys merge instead of overwriting each other.
+ * Roots made with atomWithStorage also take whole trees from storage events,
+ * so create them with createMergingJSONStorage.
+ *
+ * @param {NamespaceRootAtom} rootAtom - The atom holding the state tree
+ * @param {CrossTabSyncOptions} options - Channel, transport and conflict handler
+ * @returns {CrossTabSync} The sync view and subtree exclusion
+ */
+export function createCrossTabSync(
+  rootAtom: NamespaceRootAtom,
+  options: CrossTabSyncOptions,
+): CrossTabSync {
+  const { channel, onConflict } = options;
+  const transport = options.transport ?? createDefaultTransport(channel);
+  const source = Math.random().toString(36).slice(2);
+  const excluded: string[][] = [];
+  const isSynced = (patch: TreePatch) =>
+    !excluded.some((path) => isUnder(patch.path, path));
+
+  // Remote updates are applied without being broadcast again, and
+  // maintenance, such as access stamps or garbage collection, stays local.
+  const remoteUpdates = new WeakSet<object>();
+
+  const syncAtom: NamespaceRootAtom = atom(
+    (get) => get(rootAtom),
+    (get, set, update) => {
+      const prevState = get(rootAtom);
+      set(rootAtom, update);
+      if (
+        isMaintenanceUpdate(update) ||
+        (typeof update === "function" && remoteUpdates.has(update))
+      ) {
+        return;
+      }
+      const patches = diffTrees(prevState, get(rootAtom)).filter(isSynced);
+      if (patches.length) {
+        transport.post({ source, patches });
+      }
+    },
+  );
+
+  syncAtom.onMount = (setAtom) =>
+    transport.subscribe((message) => {
+      const patches = message.patches.filter(isSynced);
+      if (message.source === source || !patches.length) {
+        return;
+      }
+      const merge = (state: Record<string, unknown>) =>
+        applyPatches(state, patches, onConflict);
+      remoteUpdates.add(merge);
+      setAtom(merge);
+    });
+
+  return {
+    syncAtom,
+    exclude: (path) => {
+      excluded.push(path);
+      return () => {
+        excluded.splice(excluded.indexOf(path), 1);
+      };
+    },
+  };
+}
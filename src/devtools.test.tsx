@@ -0,0 +1,143 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import {
+  StateNamespaceProvider,
+  useStateNamespaceAtom,
+  useStateNamespaceReducerAtom,
+} from "./jotai-persist";
+import type { DevtoolsConnection, DevtoolsMessage } from "./devtools";
+
+afterEach(cleanup);
+
+// A connection recording what is sent, with a way to send monitor messages.
+function createMonitor() {
+  let listener: ((message: DevtoolsMessage) => void) | undefined;
+  const connection = {
+    init: vi.fn(),
+    send: vi.fn(),
+    subscribe: (l: (message: DevtoolsMessage) => void) => {
+      listener = l;
+      return () => {
+        listener = undefined;
+      };
+    },
+  } satisfies DevtoolsConnection;
+  return {
+    connection,
+    connect: vi.fn(() => connection),
+    dispatch: (message: DevtoolsMessage) => act(() => listener?.(message)),
+  };
+}
+
+type Action = { type: "add"; amount: number };
+const reducer = (state: number, action: Action) => state + action.amount;
+
+function Counters() {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  const [total, dispatch] = useStateNamespaceReducerAtom(
+    null,
+    "total",
+    reducer,
+    0,
+  );
+  return (
+    <>
+      <button data-testid="count" onClick={() => setCount((c) => c + 1)}>
+        {count}
+      </button>
+      <button
+        data-testid="total"
+        onClick={() => dispatch({ type: "add", amount: 2 })}
+      >
+        {total}
+      </button>
+    </>
+  );
+}
+
+function renderTree(
+  monitor: ReturnType<typeof createMonitor>,
+  rootAtom = atom<Record<string, unknown>>({}),
+) {
+  const store = createStore();
+  render(
+    <Provider store={store}>
+      <StateNamespaceProvider
+        rootAtom={rootAtom}
+        devtools={{ name: "test", connect: monitor.connect }}
+      >
+        <StateNamespaceProvider namespace="main">
+          <StateNamespaceProvider namespace="nested">
+            <Counters />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    </Provider>,
+  );
+  return { rootAtom, store };
+}
+
+describe("devtools", () => {
+  it("logs key writes and reducer actions with their labels", () => {
+    const monitor = createMonitor();
+    const { rootAtom, store } = renderTree(monitor);
+    expect(monitor.connect).toHaveBeenCalledWith({ name: "test" });
+    expect(monitor.connection.init).toHaveBeenCalledWith({ $layout: 1 });
+
+    fireEvent.click(screen.getByTestId("count"));
+    fireEvent.click(screen.getByTestId("total"));
+    const calls = monitor.connection.send.mock.calls;
+    expect(calls.map(([action]) => action)).toEqual([
+      { type: "set main/nested:count" },
+      { type: "main/nested:total/add", action: { type: "add", amount: 2 } },
+    ]);
+    expect(calls[1][1]).toBe(store.get(rootAtom));
+  });
+
+  it("does not log values written back on mount", () => {
+    const monitor = createMonitor();
+    renderTree(
+      monitor,
+      atom<Record<string, unknown>>({
+        main: { nested: { count: "invalid" } },
+      }),
+    );
+    expect(monitor.connection.send).not.toHaveBeenCalled();
+  });
+
+  it("jumps to states picked in the monitor", () => {
+    const monitor = createMonitor();
+    renderTree(monitor);
+    fireEvent.click(screen.getByTestId("count"));
+    const [, loggedState] = monitor.connection.send.mock.calls[0];
+    fireEvent.click(screen.getByTestId("count"));
+    expect(screen.getByTestId("count").textContent).toBe("2");
+
+    monitor.dispatch({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify(loggedState),
+    });
+    expect(screen.getByTestId("count").textContent).toBe("1");
+    expect(monitor.connection.send).toHaveBeenCalledTimes(2);
+  });
+
+  it("works without a monitor", () => {
+    const connect = vi.fn(() => undefined);
+    render(
+      <StateNamespaceProvider rootAtom={atom({})} devtools={{ connect }}>
+        <Counters />
+      </StateNamespaceProvider>,
+    );
+    fireEvent.click(screen.getByTestId("total"));
+    expect(screen.getByTestId("total").textContent).toBe("2");
+    expect(connect).toHaveBeenCalledWith({ name: "state tree" });
+  });
+});
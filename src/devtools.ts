@@ -0,0 +1,184 @@
+import { atom, type SetStateAction } from "jotai";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import { formatKeyLabel } from "./atom-cache.js";
+import { getUpdateDescription, isMaintenanceUpdate } from "./namespace-tree.js";
+
+/**
+ * An action logged to devtools for a write to the tree
+ */
+export type DevtoolsAction = { type: string; [field: string]: unknown };
+
+/**
+ * A message sent by devtools, such as a request to jump to a logged state
+ */
+export type DevtoolsMessage = {
+  type: string;
+  payload?: { type: string };
+  /** The state to jump to, as JSON */
+  state?: string;
+};
+
+/**
+ * A connection to a Redux-DevTools-compatible monitor
+ */
+export interface DevtoolsConnection {
+  init(state: unknown): void;
+  send(action: DevtoolsAction, state: unknown): void;
+  /** Listens for messages from the monitor, returning a function that stops */
+  subscribe(listener: (message: DevtoolsMessage) => void): () => void;
+}
+
+/**
+ * Opens a devtools connection, or returns undefined if none is available
+ */
+export type DevtoolsConnector = (options: {
+  name: string;
+}) => DevtoolsConnection | undefined;
+
+/**
+ * Options for logging writes to a state tree in devtools
+ */
+export type NamespaceDevtoolsOptions = {
+  /** Name of the tree in the monitor, defaults to "state tree" */
+  name?: string;
+  /** Opens the connection, defaults to the Redux DevTools browser extension */
+  connect?: DevtoolsConnector;
+};
+
+type ReduxDevtoolsExtension = {
+  connect(options: { name: string }): {
+    init(state: unknown): void;
+    send(action: DevtoolsAction, state: unknown): void;
+    subscribe(listener: (message: DevtoolsMessage) => void): unknown;
+  };
+};
+
+// Connects to the Redux DevTools browser extension, if installed.
+const connectReduxDevtools: DevtoolsConnector = (options) => {
+  const extension =
+    typeof window === "undefined"
+      ? undefined
+      : (
+          window as unknown as {
+            __REDUX_DEVTOOLS_EXTENSION__?: ReduxDevtoolsExtension;
+          }
+        ).__REDUX_DEVTOOLS_EXTENSION__;
+  if (!extension) {
+    return undefined;
+  }
+  const connection = extension.connect(options);
+  return {
+    init: (state) => connection.init(state),
+    send: (action, state) => connection.send(action, state),
+    subscribe: (listener) => {
+      const unsubscribe = connection.subscribe(listener);
+      return typeof unsubscribe === "function"
+        ? (unsubscribe as () => void)
+        : () => {};
+    },
+  };
+};
+
+/**
+ * Returns the action logged for an update. Reducer writes are logged as
+ * "<key label>/<action type>" with the action, other key writes as
+ * "set <key label>".
+ */
+export function describeDevtoolsAction(
+  update: SetStateAction<Record<string, unknown>>,
+): DevtoolsAction {
+  const description = getUpdateDescription(update);
+  if (!description) {
+    return { type: "update" };
+  }
+  const label = formatKeyLabel(description.path, description.key);
+  if (!("action" in description)) {
+    return { type: `set ${label}` };
+  }
+  const { action } = description;
+  const actionType =
+    typeof action === "object" &&
+    action !== null &&
+    typeof (action as { type?: unknown }).type === "string"
+      ? (action as { type: string }).type
+      : "dispatch";
+  return { type: `${label}/${actionType}`, action };
+}
+
+// Identity update used on mount to send the initial state.
+function initDevtools(state: Record<string, unknown>) {
+  return state;
+}
+
+/**
+ * Creates a view of a root atom logging its writes to a Redux-DevTools
+ * compatible monitor, which can jump back to any logged state. Maintenance
+ * writes, such as migrated values written back, are not logged.
+ *
+ * @param {NamespaceRootAtom} rootAtom - The atom holding the state tree
+ * @param {NamespaceDevtoolsOptions} [options] - Monitor name and connector
+ * @returns {NamespaceRootAtom} The logging view
+ */
+export function createDevtoolsAtom(
+  rootAtom: NamespaceRootAtom,
+  options: NamespaceDevtoolsOptions = {},
+): NamespaceRootAtom {
+  const { name = "state tree", connect = connectReduxDevtools } = options;
+  let connection: DevtoolsConnection | undefined;
+
+  // States restored by time travel are applied without being logged.
+  const restoredStates = new WeakSet<object>();
+
+  const devtoolsAtom: NamespaceRootAtom = atom(
+    (get) => get(rootAtom),
+    (get, set, update) => {
+      if (update === initDevtools) {
+        connection?.init(get(rootAtom));
+        return;
+      }
+      set(rootAtom, update);
+      if (
+        connection &&
+        !isMaintenanceUpdate(update) &&
+        !(typeof update === "object" && restoredStates.has(update))
+      ) {
+        connection.send(describeDevtoolsAction(update), get(rootAtom));
+      }
+    },
+  );
+  devtoolsAtom.debugLabel = `${name} devtools`;
+
+  devtoolsAtom.onMount = (setAtom) => {
+    connection = connect({ name });
+    if (!connection) {
+      return;
+    }
+    setAtom(initDevtools);
+    const unsubscribe = connection.subscribe((message) => {
+      if (message.type !== "DISPATCH") {
+        return;
+      }
+      switch (message.payload?.type) {
+        case "JUMP_TO_STATE":
+        case "JUMP_TO_ACTION": {
+          if (!message.state) {
+            break;
+          }
+          const state = JSON.parse(message.state);
+          restoredStates.add(state);
+          setAtom(state);
+          break;
+        }
+        case "COMMIT":
+          setAtom(initDevtools);
+          break;
+      }
+    });
+    return () => {
+      unsubscribe();
+      connection = undefined;
+    };
+  };
+
+  return devtoolsAtom;
+}
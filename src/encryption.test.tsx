@@ -0,0 +1,145 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import {
+  StateNamespaceProvider,
+  useNamespaceHydrated,
+  useStateNamespaceAtom,
+} from "./jotai-persist";
+import { getNamespaceNode } from "./namespace-tree";
+import { ENCRYPTED_KEY, encryptNode } from "./encryption";
+
+afterEach(cleanup);
+
+const generateKey = () =>
+  crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+
+function Draft({ testId }: { testId: string }) {
+  const [draft, setDraft] = useStateNamespaceAtom(null, "draft", "");
+  const hydrated = useNamespaceHydrated();
+  return (
+    <input
+      data-testid={testId}
+      value={hydrated ? draft : "loading"}
+      onChange={(e) => setDraft(e.target.value)}
+    />
+  );
+}
+
+function renderDrafts(
+  initialState: Record<string, unknown>,
+  key: CryptoKey | null,
+  onError?: (error: unknown) => void,
+) {
+  const rootAtom = atom(initialState);
+  const store = createStore();
+  const tree = (key: CryptoKey | null) => (
+    <Provider store={store}>
+      <StateNamespaceProvider rootAtom={rootAtom}>
+        <StateNamespaceProvider namespace="public">
+          <Draft testId="public" />
+        </StateNamespaceProvider>
+        <StateNamespaceProvider
+          namespace="secret"
+          encryption={{ key, onError }}
+        >
+          <Draft testId="secret" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    </Provider>
+  );
+  const { rerender } = render(tree(key));
+  return {
+    stored: () => store.get(rootAtom),
+    setKey: (key: CryptoKey | null) => rerender(tree(key)),
+  };
+}
+
+const value = (testId: string) =>
+  (screen.getByTestId(testId) as HTMLInputElement).value;
+const type = (testId: string, text: string) =>
+  fireEvent.change(screen.getByTestId(testId), { target: { value: text } });
+
+describe("encrypted namespaces", () => {
+  it("stores the subtree as ciphertext and the rest as plaintext", async () => {
+    const { stored } = renderDrafts({}, await generateKey());
+    type("public", "hello");
+    type("secret", "token-123");
+    expect(value("secret")).toBe("token-123");
+
+    await waitFor(() =>
+      expect(getNamespaceNode(stored(), ["secret"])).toHaveProperty(
+        ENCRYPTED_KEY,
+      ),
+    );
+    expect(JSON.stringify(stored())).not.toContain("token-123");
+    expect(getNamespaceNode(stored(), ["public"]).draft).toBe("hello");
+  });
+
+  it("decrypts the subtree on hydration", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptNode(key, { draft: "saved" });
+    renderDrafts(
+      { $layout: 1, $children: { secret: { [ENCRYPTED_KEY]: encrypted } } },
+      key,
+    );
+    expect(value("secret")).toBe("loading");
+    await waitFor(() => expect(value("secret")).toBe("saved"));
+  });
+
+  it("locks the subtree without a key, keeping the ciphertext", async () => {
+    const key = await generateKey();
+    const { stored, setKey } = renderDrafts({}, key);
+    type("secret", "draft");
+    await waitFor(() =>
+      expect(getNamespaceNode(stored(), ["secret"])).toHaveProperty(
+        ENCRYPTED_KEY,
+      ),
+    );
+    const ciphertext = getNamespaceNode(stored(), ["secret"]);
+
+    setKey(null);
+    expect(value("secret")).toBe("");
+    type("secret", "while locked");
+    expect(value("secret")).toBe("");
+    expect(getNamespaceNode(stored(), ["secret"])).toBe(ciphertext);
+
+    setKey(key);
+    await waitFor(() => expect(value("secret")).toBe("draft"));
+  });
+
+  it("reports ciphertext it cannot decrypt", async () => {
+    const encrypted = await encryptNode(await generateKey(), { draft: "x" });
+    const onError = vi.fn();
+    renderDrafts(
+      { $layout: 1, $children: { secret: { [ENCRYPTED_KEY]: encrypted } } },
+      await generateKey(),
+      onError,
+    );
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    expect(value("secret")).toBe("");
+  });
+
+  it("encrypts subtrees stored as plaintext", async () => {
+    const { stored } = renderDrafts(
+      { $layout: 1, $children: { secret: { draft: "old" } } },
+      await generateKey(),
+    );
+    expect(value("secret")).toBe("old");
+    await waitFor(() =>
+      expect(getNamespaceNode(stored(), ["secret"])).toHaveProperty(
+        ENCRYPTED_KEY,
+      ),
+    );
+    expect(value("secret")).toBe("old");
+  });
+});
@@ -0,0 +1,238 @@
+import { atom } from "jotai";
+import { loadable, selectAtom } from "jotai/utils";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import type { NamespaceHydration } from "./async-storage.js";
+import {
+  applyUpdate,
+  describeUpdate,
+  getNamespaceNode,
+  getUpdateDescription,
+  isMaintenanceUpdate,
+  markMaintenanceUpdate,
+  updateDeepNode,
+} from "./namespace-tree.js";
+
+/**
+ * Reserved node entry holding the ciphertext of an encrypted namespace,
+ * which replaces the node's keys and children in storage.
+ */
+export const ENCRYPTED_KEY = "$encrypted";
+
+/**
+ * An AES-GCM encrypted namespace node, base64 encoded
+ */
+export type EncryptedData = { iv: string; data: string };
+
+/**
+ * Options for encrypting a namespace subtree
+ */
+export type NamespaceEncryption = {
+  /** AES-GCM key supplied by the app, or null while locked, e.g. after logout */
+  key: CryptoKey | null;
+  /** Called when decrypting or encrypting fails, defaults to console.error */
+  onError?: (error: unknown) => void;
+};
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+function isEncryptedData(value: unknown): value is EncryptedData {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as EncryptedData).iv === "string" &&
+    typeof (value as EncryptedData).data === "string"
+  );
+}
+
+/**
+ * Encrypts a namespace node as JSON, with a fresh random IV.
+ */
+export async function encryptNode(
+  key: CryptoKey,
+  node: Record<string, unknown>,
+): Promise<EncryptedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(node)),
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypts a namespace node encrypted with encryptNode. Rejects if the key
+ * is wrong or the data was tampered with.
+ */
+export async function decryptNode(
+  key: CryptoKey,
+  encrypted: EncryptedData,
+): Promise<Record<string, unknown>> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(encrypted.iv) },
+    key,
+    fromBase64(encrypted.data),
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+// Update used on mount to encrypt a subtree still stored as plaintext.
+function encryptStored(state: Record<string, unknown>) {
+  return state;
+}
+
+/**
+ * Creates a view of a root atom in which the namespace at path is stored
+ * encrypted. The subtree is decrypted once loaded and shown as an empty node
+ * until then, or while no key is supplied. Writes to the subtree are shown
+ * at once and stored once encrypted; while the subtree is locked or still
+ * decrypting they are discarded, so the stored ciphertext is never lost.
+ *
+ * @param {NamespaceRootAtom} rootAtom - The atom holding the state tree
+ * @param {string[]} path - Namespace path of the encrypted subtree
+ * @param {NamespaceEncryption} encryption - The key and error handling
+ * @param {NamespaceHydration | null} parentHydration - Loading status of rootAtom, if asynchronous
+ * @returns The view, and its hydration status which includes decryption
+ */
+export function createEncryptedAtom(
+  rootAtom: NamespaceRootAtom,
+  path: string[],
+  { key, onError = console.error }: NamespaceEncryption,
+  parentHydration: NamespaceHydration | null,
+): { encryptedAtom: NamespaceRootAtom; hydration: NamespaceHydration } {
+  // Plaintext of the ciphertext this view has decrypted or written. Kept per
+  // key, so it is dropped when the subtree is locked.
+  const plaintexts = new WeakMap<EncryptedData, Record<string, unknown>>();
+
+  const storedNodeAtom = selectAtom(rootAtom, (state) =>
+    getNamespaceNode(state, path),
+  );
+  const decryptedAtom = atom((get) => {
+    const node = get(storedNodeAtom);
+    const encrypted = node[ENCRYPTED_KEY];
+    if (!key) {
+      return null;
+    }
+    if (!isEncryptedData(encrypted)) {
+      return node;
+    }
+    const plaintext = plaintexts.get(encrypted);
+    if (plaintext) {
+      return plaintext;
+    }
+    return decryptNode(key, encrypted).then(
+      (decrypted) => {
+        plaintexts.set(encrypted, decrypted);
+        return decrypted;
+      },
+      (error) => {
+        onError(error);
+        return null;
+      },
+    );
+  });
+  const decryptedLoadableAtom = loadable(decryptedAtom);
+
+  // The latest subtree written, until its ciphertext is stored.
+  const pendingAtom = atom<Record<string, unknown> | null>(null);
+
+  const plainNodeAtom = atom((get) => {
+    const decrypted = get(decryptedLoadableAtom);
+    return (
+      get(pendingAtom) ??
+      (decrypted.state === "hasData" ? decrypted.data : null)
+    );
+  });
+
+  const encryptedAtom: NamespaceRootAtom = atom(
+    (get) => {
+      const node = get(plainNodeAtom) ?? {};
+      return updateDeepNode(get(rootAtom), path, () => node);
+    },
+    (get, set, update) => {
+      // Carries the update's description and maintenance mark over.
+      const tag = (next: (state: Record<string, unknown>) => typeof state) =>
+        isMaintenanceUpdate(update)
+          ? markMaintenanceUpdate(next)
+          : describeUpdate(next, getUpdateDescription(update));
+
+      const persist = (node: Record<string, unknown>) => {
+        set(pendingAtom, node);
+        encryptNode(key!, node).then((encrypted) => {
+          plaintexts.set(encrypted, node);
+          // Only the latest write is stored, in case encryptions overtake
+          // each other.
+          if (get(pendingAtom) !== node) {
+            return;
+          }
+          set(
+            rootAtom,
+            tag((state) =>
+              updateDeepNode(state, path, () => ({
+                [ENCRYPTED_KEY]: encrypted,
+              })),
+            ),
+          );
+          set(pendingAtom, null);
+        }, onError);
+      };
+
+      const plainNode = get(plainNodeAtom);
+      if (update === encryptStored) {
+        const stored = get(storedNodeAtom);
+        if (
+          plainNode === stored &&
+          Object.keys(stored).length &&
+          !(ENCRYPTED_KEY in stored)
+        ) {
+          persist(stored);
+        }
+        return;
+      }
+
+      let nextNode: Record<string, unknown> | undefined;
+      set(
+        rootAtom,
+        tag((state) => {
+          const stored = getNamespaceNode(state, path);
+          const next = applyUpdate(
+            updateDeepNode(state, path, () => plainNode ?? {}),
+            update,
+          );
+          nextNode = getNamespaceNode(next, path);
+          return updateDeepNode(next, path, () => stored);
+        }),
+      );
+      if (key && plainNode && nextNode && nextNode !== plainNode) {
+        persist(nextNode);
+      }
+    },
+  );
+
+  // Subtrees stored before encryption was turned on are encrypted once mounted.
+  encryptedAtom.onMount = (setAtom) => setAtom(encryptStored);
+
+  const hydratedAtom = atom(
+    (get) =>
+      (!parentHydration || get(parentHydration.hydratedAtom)) &&
+      get(decryptedLoadableAtom).state !== "loading",
+  );
+  const hydrationAtom = atom(async (get) => {
+    if (parentHydration) {
+      await get(parentHydration.hydrationAtom);
+    }
+    await get(decryptedAtom);
+  });
+
+  return { encryptedAtom, hydration: { hydratedAtom, hydrationAtom } };
+}
@@ -0,0 +1,246 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { atom, createStore, Provider, type SetStateAction } from "jotai";
+import {
+  StateNamespaceProvider,
+  useNamespaceGarbageCollector,
+  useStateNamespaceAtom,
+} from "./jotai-persist";
+import {
+  ACCESSED_KEY,
+  collectGarbage,
+  type GarbageReport,
+} from "./garbage-collection";
+import { getKeyValue, getNamespaceNode } from "./namespace-tree";
+
+const DAY = 24 * 60 * 60 * 1000;
+const notMounted = () => false;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(100 * DAY);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+describe("collectGarbage", () => {
+  it("prunes keys accessed before the cutoff and empty namespaces", () => {
+    const state = {
+      $children: {
+        main: {
+          count: 1,
+          text: "a",
+          [ACCESSED_KEY]: { count: 10, text: 90 },
+          $versions: { count: 2, text: 1 },
+          $children: { old: { value: true, [ACCESSED_KEY]: { value: 5 } } },
+        },
+      },
+    };
+
+    const { state: next, report } = collectGarbage(state, [], {
+      cutoff: 50,
+      now: 100,
+      isMounted: notMounted,
+    });
+
+    expect(next).toEqual({
+      $children: {
+        main: {
+          text: "a",
+          [ACCESSED_KEY]: { text: 90 },
+          $versions: { text: 1 },
+        },
+      },
+    });
+    expect(report).toEqual({
+      keys: [
+        { path: ["main", "old"], key: "value" },
+        { path: ["main"], key: "count" },
+      ],
+      namespaces: [["main", "old"]],
+    });
+  });
+
+  it("adopts unstamped keys and keeps mounted ones", () => {
+    const state = {
+      $children: {
+        main: { legacy: 1, mounted: 2, [ACCESSED_KEY]: { mounted: 0 } },
+      },
+    };
+
+    const { state: next, report } = collectGarbage(state, ["main"], {
+      cutoff: 50,
+      now: 100,
+      isMounted: (_path, key) => key === "mounted",
+    });
+
+    expect(next).toEqual({
+      $children: {
+        main: {
+          legacy: 1,
+          mounted: 2,
+          [ACCESSED_KEY]: { legacy: 100, mounted: 0 },
+        },
+      },
+    });
+    expect(report).toEqual({ keys: [], namespaces: [] });
+  });
+});
+
+function Counter() {
+  const [count] = useStateNamespaceAtom(null, "count", 0);
+  return <span>{count}</span>;
+}
+
+function Collector({
+  onReady,
+}: {
+  onReady: (collect: ReturnType<typeof useNamespaceGarbageCollector>) => void;
+}) {
+  onReady(useNamespaceGarbageCollector());
+  return null;
+}
+
+describe("StateNamespaceProvider gc", () => {
+  function renderTree(dryRun?: boolean) {
+    const rootAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: {
+        main: { count: 1 },
+        stale: { count: 5, [ACCESSED_KEY]: { count: 0 } },
+      },
+    });
+    const store = createStore();
+    const onCollect = vi.fn<(report: GarbageReport) => void>();
+    let collect!: ReturnType<typeof useNamespaceGarbageCollector>;
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider
+          rootAtom={rootAtom}
+          gc={{ retention: 30 * DAY, dryRun, onCollect }}
+        >
+          <StateNamespaceProvider namespace="main">
+            <Counter />
+            <Collector onReady={(fn) => (collect = fn)} />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+    return { rootAtom, store, onCollect, collect: () => collect };
+  }
+
+  it("prunes stale namespaces on mount and stamps mounted keys", () => {
+    const { rootAtom, store, onCollect } = renderTree();
+
+    expect(onCollect).toHaveBeenCalledWith({
+      keys: [{ path: ["stale"], key: "count" }],
+      namespaces: [["stale"]],
+    });
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: {
+        main: { count: 1, [ACCESSED_KEY]: { count: 100 * DAY } },
+      },
+    });
+  });
+
+  it("only reports in dry-run mode", () => {
+    const { rootAtom, store, onCollect } = renderTree(true);
+
+    expect(onCollect).toHaveBeenCalledWith({
+      keys: [{ path: ["stale"], key: "count" }],
+      namespaces: [["stale"]],
+    });
+    expect(store.get(rootAtom)).toHaveProperty("$children.stale.count", 5);
+  });
+
+  it("stamps the keys mounted together in a single write", () => {
+    const names = ["a", "b", "c", "d", "e"];
+    const baseAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: { main: Object.fromEntries(names.map((name) => [name, 1])) },
+    });
+    let writes = 0;
+    const rootAtom = atom(
+      (get) => get(baseAtom),
+      (_get, set, update: SetStateAction<Record<string, unknown>>) => {
+        writes++;
+        set(baseAtom, update);
+      },
+    );
+    function Key({ name }: { name: string }) {
+      useStateNamespaceAtom(null, name, 0);
+      return null;
+    }
+    const store = createStore();
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} gc={{ retention: DAY }}>
+          <StateNamespaceProvider namespace="main">
+            {names.map((name) => (
+              <Key key={name} name={name} />
+            ))}
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    expect(writes).toBe(1);
+    expect(store.get(rootAtom)).toHaveProperty(
+      ["$children", "main", ACCESSED_KEY],
+      Object.fromEntries(names.map((name) => [name, 100 * DAY])),
+    );
+  });
+
+  it("leaves object values the layout migration moved untouched", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      main: { count: 1, filter: { tag: "x" } },
+    });
+    const store = createStore();
+    let collect!: ReturnType<typeof useNamespaceGarbageCollector>;
+    function Increment() {
+      const [, setCount] = useStateNamespaceAtom(null, "count", 0);
+      return (
+        <button
+          data-testid="increment"
+          onClick={() => setCount((c) => c + 1)}
+        />
+      );
+    }
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} gc={{ retention: DAY }}>
+          <StateNamespaceProvider namespace="main">
+            <Increment />
+            <Collector onReady={(fn) => (collect = fn)} />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+    // Writing count shows main is a namespace, while filter stays unknown.
+    fireEvent.click(screen.getByTestId("increment"));
+
+    vi.setSystemTime(140 * DAY);
+    expect(collect().keys).toEqual([]);
+    const main = getNamespaceNode(store.get(rootAtom), ["main"]);
+    expect(main.count).toBe(2);
+    expect(getKeyValue(main, "filter")).toEqual({ tag: "x" });
+  });
+
+  it("keeps keys of unmounted components for the retention window", () => {
+    const { rootAtom, store, collect } = renderTree();
+    cleanup();
+
+    vi.setSystemTime(120 * DAY);
+    expect(collect()({ dryRun: true })).toEqual({ keys: [], namespaces: [] });
+
+    vi.setSystemTime(140 * DAY);
+    expect(collect()({ dryRun: true }).namespaces).toEqual([["main"]]);
+    expect(store.get(rootAtom)).toHaveProperty("$children.main");
+    collect()();
+    expect(store.get(rootAtom)).toEqual({ $layout: 1 });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  CHILDREN_KEY,
+  MIGRATED_CHILDREN_KEY,
+  getChildNodes,
+  getNamespaceNode,
+  setChildNodes,
+  updateDeepNode,
+} from "./namespace-tree.js";
+import { KEY_VERSIONS_KEY } from "./migrations.js";
+
+/**
+ * Reserved namespace entry holding the last access time of each key.
+ */
+export const ACCESSED_KEY = "$accessed";
+
+/**
+ * Options for pruning namespace state that is no longer used
+ */
+export type NamespaceGcOptions = {
+  /** Keys not accessed for this many milliseconds are pruned */
+  retention: number;
+  /** Runs a collection every interval milliseconds while mounted */
+  interval?: number;
+  /** Only report what would be deleted */
+  dryRun?: boolean;
+  /** Called with the result of every automatic collection */
+  onCollect?: (report: GarbageReport) => void;
+};
+
+/**
+ * What a garbage collection pruned, or would prune in dry-run mode
+ */
+export type GarbageReport = {
+  /** Keys pruned, including those inside pruned namespaces */
+  keys: { path: string[]; key: string }[];
+  /** Namespace subtrees removed entirely */
+  namespaces: string[][];
+};
+
+/**
+ * The last time a key was accessed
+ */
+export type KeyAccess = {
+  path: string[];
+  key: string;
+  time: number;
+};
+
+/**
+ * Tracks which keys are used by mounted hooks, and when they were last
+ * mounted or unmounted
+ */
+export type NamespaceGcTracker = {
+  /** Registers a mounted key, returning a function that unregisters it */
+  track: (path: string[], key: string) => () => void;
+  isMounted: (path: string[], key: string) => boolean;
+  /** Accesses recorded since they were last cleared, one per key */
+  getAccesses: () => KeyAccess[];
+  /** Forgets the recorded accesses once they are stamped in the tree */
+  clearAccesses: () => void;
+};
+
+/**
+ * Creates a tracker of keys used by mounted hooks. Access times are kept in
+ * the tracker, so they can be stamped in the tree with a single write.
+ */
+export function createGcTracker(): NamespaceGcTracker {
+  const mounted = new Map<string, number>();
+  const accesses = new Map<string, KeyAccess>();
+  const id = (path: string[], key: string) => JSON.stringify([...path, key]);
+  return {
+    track: (path, key) => {
+      const keyId = id(path, key);
+      mounted.set(keyId, (mounted.get(keyId) ?? 0) + 1);
+      accesses.set(keyId, { path, key, time: Date.now() });
+      return () => {
+        const count = (mounted.get(keyId) ?? 1) - 1;
+        if (count) {
+          mounted.set(keyId, count);
+        } else {
+          mounted.delete(keyId);
+        }
+        accesses.set(keyId, { path, key, time: Date.now() });
+      };
+    },
+    isMounted: (path, key) => mounted.has(id(path, key)),
+    getAccesses: () => [...accesses.values()],
+    clearAccesses: () => accesses.clear(),
+  };
+}
+
+// Reserved entries hold metadata, not keys or child namespaces.
+function isReservedEntry(name: string) {
+  return name.startsWith("$");
+}
+
+/**
+ * Stamps the last access time of a key.
+ * @param state - The state tree
+ * @param path - Namespace path of the key
+ * @param key - The accessed key
+ * @param now - Access time in milliseconds
+ * @returns The updated state tree
+ */
+export function stampAccess(
+  state: Record<string, unknown>,
+  path: string[],
+  key: string,
+  now: number,
+): Record<string, unknown> {
+  return updateDeepNode(state, path, (node) => ({
+    ...node,
+    [ACCESSED_KEY]: {
+      ...(node[ACCESSED_KEY] as Record<string, number> | undefined),
+      [key]: now,
+    },
+  }));
+}
+
+/**
+ * Stamps the access times of keys stored in the tree. Keys without a stored
+ * value, such as keys kept in sessionStorage, are skipped.
+ * @param state - The state tree
+ * @param accesses - Accesses recorded by a tracker
+ * @returns The updated state tree, or state if nothing was stamped
+ */
+export function stampAccesses(
+  state: Record<string, unknown>,
+  accesses: KeyAccess[],
+): Record<string, unknown> {
+  return accesses.reduce(
+    (next, { path, key, time }) =>
+      key in getNamespaceNode(next, path)
+        ? stampAccess(next, path, key, time)
+        : next,
+    state,
+  );
+}
+
+/**
+ * Prunes keys not accessed since the cutoff, and namespaces left empty.
+ * Keys without an access stamp are adopted with the current time so data
+ * written before tracking started gets a full retention window.
+ *
+ * @param state - The state tree
+ * @param path - Namespace path of the collected subtree
+ * @param options - Cutoff time, current time and mounted key check
+ * @returns The collected state tree and what was pruned
+ */
+export function collectGarbage(
+  state: Record<string, unknown>,
+  path: string[],
+  options: {
+    cutoff: number;
+    now: number;
+    isMounted: (path: string[], key: string) => boolean;
+  },
+): { state: Record<string, unknown>; report: GarbageReport } {
+  const { cutoff, now, isMounted } = options;
+  const report: GarbageReport = { keys: [], namespaces: [] };
+
+  // Returns the collected node, or null if nothing is left in it.
+  const visit = (
+    node: Record<string, unknown>,
+    nodePath: string[],
+  ): Record<string, unknown> | null => {
+    const accessed = (node[ACCESSED_KEY] as Record<string, number>) ?? {};
+    const versions = node[KEY_VERSIONS_KEY] as
+      Record<string, number> | undefined;
+    const next: Record<string, unknown> = {};
+    const nextAccessed: Record<string, number> = {};
+    const nextChildren: Record<string, Record<string, unknown>> = {};
+    const migrated = (node[MIGRATED_CHILDREN_KEY] as string[]) ?? [];
+    let live = false;
+
+    for (const [name, child] of Object.entries(getChildNodes(node))) {
+      // Children the layout migration moved may be object values, which are
+      // left as they are until a write shows they are namespaces.
+      if (migrated.includes(name)) {
+        nextChildren[name] = child;
+        live = true;
+        continue;
+      }
+      const collected = visit(child, [...nodePath, name]);
+      if (collected) {
+        nextChildren[name] = collected;
+        live = true;
+      } else {
+        report.namespaces.push([...nodePath, name]);
+      }
+    }
+
+    for (const [name, value] of Object.entries(node)) {
+      if (isReservedEntry(name)) {
+        continue;
+      }
+      const stamp = accessed[name] ?? now;
+      if (stamp < cutoff && !isMounted(nodePath, name)) {
+        report.keys.push({ path: nodePath, key: name });
+        continue;
+      }
+      next[name] = value;
+      nextAccessed[name] = stamp;
+      live = true;
+    }
+
+    // The collected node itself keeps its metadata even when emptied.
+    if (!live && nodePath !== path) {
+      return null;
+    }
+    // Keep metadata for the surviving keys only.
+    for (const [name, value] of Object.entries(node)) {
+      if (
+        isReservedEntry(name) &&
+        name !== ACCESSED_KEY &&
+        name !== CHILDREN_KEY
+      ) {
+        next[name] = value;
+      }
+    }
+    if (versions) {
+      const liveVersions = Object.fromEntries(
+        Object.entries(versions).filter(([key]) => key in next),
+      );
+      if (Object.keys(liveVersions).length) {
+        next[KEY_VERSIONS_KEY] = liveVersions;
+      } else {
+        delete next[KEY_VERSIONS_KEY];
+      }
+    }
+    if (Object.keys(nextAccessed).length) {
+      next[ACCESSED_KEY] = nextAccessed;
+    }
+    return setChildNodes(next, nextChildren);
+  };
+
+  const collected = visit(getNamespaceNode(state, path), path);
+  const nextState = updateDeepNode(state, path, () => collected ?? {});
+  return { state: nextState, report };
+}
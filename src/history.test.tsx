@@ -0,0 +1,214 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { atom } from "jotai";
+import {
+  StateNamespaceProvider,
+  useNamespaceHistory,
+  useStateNamespaceAtom,
+  useStateNamespaceReducerAtom,
+} from "./jotai-persist";
+
+afterEach(cleanup);
+
+const appendReducer = (state: string[], item: string) => [...state, item];
+const initialItems: string[] = [];
+
+function Panel({ name }: { name: string }) {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  const [items, addItem] = useStateNamespaceReducerAtom(
+    null,
+    "items",
+    appendReducer,
+    initialItems,
+  );
+  const { undo, redo, canUndo, canRedo } = useNamespaceHistory();
+  return (
+    <div>
+      <span data-testid={`${name}-state`}>
+        {count}:{items.join(",")}
+      </span>
+      <button
+        data-testid={`${name}-inc`}
+        onClick={() => setCount((c) => c + 1)}
+      >
+        inc
+      </button>
+      <button data-testid={`${name}-add`} onClick={() => addItem("x")}>
+        add
+      </button>
+      <button data-testid={`${name}-undo`} disabled={!canUndo} onClick={undo}>
+        undo
+      </button>
+      <button data-testid={`${name}-redo`} disabled={!canRedo} onClick={redo}>
+        redo
+      </button>
+    </div>
+  );
+}
+
+function renderPanels(depth?: number) {
+  const rootAtom = atom<Record<string, unknown>>({});
+  render(
+    <StateNamespaceProvider rootAtom={rootAtom}>
+      <StateNamespaceProvider namespace="left" history={{ depth }}>
+        <Panel name="left" />
+      </StateNamespaceProvider>
+      <StateNamespaceProvider namespace="right" history={{ depth }}>
+        <Panel name="right" />
+      </StateNamespaceProvider>
+    </StateNamespaceProvider>,
+  );
+}
+
+const click = (testId: string) => fireEvent.click(screen.getByTestId(testId));
+const text = (testId: string) => screen.getByTestId(testId).textContent;
+
+describe("useNamespaceHistory", () => {
+  it("undoes and redoes atom and reducer writes", () => {
+    renderPanels();
+
+    click("left-inc");
+    click("left-add");
+    expect(text("left-state")).toBe("1:x");
+
+    click("left-undo");
+    expect(text("left-state")).toBe("1:");
+    click("left-undo");
+    expect(text("left-state")).toBe("0:");
+    expect(screen.getByTestId("left-undo")).toHaveProperty("disabled", true);
+
+    click("left-redo");
+    click("left-redo");
+    expect(text("left-state")).toBe("1:x");
+    expect(screen.getByTestId("left-redo")).toHaveProperty("disabled", true);
+  });
+
+  it("does not roll back sibling namespaces", () => {
+    renderPanels();
+
+    click("left-inc");
+    click("right-inc");
+    click("right-inc");
+    click("left-undo");
+
+    expect(text("left-state")).toBe("0:");
+    expect(text("right-state")).toBe("2:");
+    expect(screen.getByTestId("right-undo")).toHaveProperty("disabled", false);
+  });
+
+  it("clears the redo stack on a new edit", () => {
+    renderPanels();
+
+    click("left-inc");
+    click("left-undo");
+    click("left-add");
+    expect(screen.getByTestId("left-redo")).toHaveProperty("disabled", true);
+    expect(text("left-state")).toBe("0:x");
+  });
+
+  it("keeps at most depth undo steps", () => {
+    renderPanels(2);
+
+    click("left-inc");
+    click("left-inc");
+    click("left-inc");
+    click("left-undo");
+    click("left-undo");
+    expect(text("left-state")).toBe("1:");
+    expect(screen.getByTestId("left-undo")).toHaveProperty("disabled", true);
+  });
+
+  it("persists history under a storage key", () => {
+    const rootAtom = atom<Record<string, unknown>>({});
+    const tree = (
+      <StateNamespaceProvider rootAtom={rootAtom}>
+        <StateNamespaceProvider
+          namespace="left"
+          history={{ storageKey: "test-history" }}
+        >
+          <Panel name="left" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    );
+
+    render(tree);
+    click("left-inc");
+    expect(JSON.parse(localStorage.getItem("test-history")!)).toEqual({
+      past: [{}],
+      future: [],
+    });
+  });
+
+  it("keeps the history of encrypted subtrees out of storage", async () => {
+    const key = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+    render(
+      <StateNamespaceProvider rootAtom={atom({})}>
+        <StateNamespaceProvider namespace="secret" encryption={{ key }}>
+          <StateNamespaceProvider
+            namespace="left"
+            history={{ storageKey: "secret-history" }}
+          >
+            <Panel name="left" />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+
+    click("left-inc");
+    expect(text("left-state")).toBe("1:");
+    // Undo applies once the restored subtree is encrypted.
+    click("left-undo");
+    await waitFor(() => expect(text("left-state")).toBe("0:"));
+    expect(localStorage.getItem("secret-history")).toBeNull();
+  });
+
+  it("keeps history when a provider with inline migrations re-renders", () => {
+    const rootAtom = atom<Record<string, unknown>>({});
+    function App({ label }: { label: string }) {
+      return (
+        <StateNamespaceProvider rootAtom={rootAtom}>
+          <StateNamespaceProvider
+            namespace="left"
+            version={1}
+            migrations={[(node) => node]}
+            history={{}}
+          >
+            <span>{label}</span>
+            <Panel name="left" />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      );
+    }
+    const { rerender } = render(<App label="a" />);
+
+    click("left-inc");
+    rerender(<App label="b" />);
+    expect(screen.getByTestId("left-undo")).toHaveProperty("disabled", false);
+    click("left-undo");
+    expect(text("left-state")).toBe("0:");
+  });
+
+  it("throws without a provider with history", () => {
+    function Orphan() {
+      useNamespaceHistory();
+      return null;
+    }
+    expect(() =>
+      render(
+        <StateNamespaceProvider>
+          <Orphan />
+        </StateNamespaceProvider>,
+      ),
+    ).toThrow("useNamespaceHistory requires a StateNamespaceProvider");
+  });
+});
@@ -0,0 +1,117 @@
+import { atom, type Atom, type WritableAtom } from "jotai";
+import { atomWithStorage } from "jotai/utils";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import {
+  getNamespaceNode,
+  isMaintenanceUpdate,
+  updateDeepNode,
+} from "./namespace-tree.js";
+
+/**
+ * Options for a namespace subtree's undo/redo history. History covers the
+ * keys stored in the provider's rootAtom; keys persisted "none" or "session"
+ * are not recorded.
+ */
+export type NamespaceHistoryOptions = {
+  /** Maximum number of undo steps kept, defaults to 100 */
+  depth?: number;
+  /**
+   * localStorage key to persist the history under, if any. History of an
+   * encrypted subtree is only kept in memory, as it holds the plaintext.
+   */
+  storageKey?: string;
+};
+
+type HistoryStacks = {
+  past: Record<string, unknown>[];
+  future: Record<string, unknown>[];
+};
+
+/**
+ * Undo/redo atoms of a namespace subtree
+ */
+export type NamespaceHistory = {
+  /** View of the root atom recording every write to the subtree */
+  recordingAtom: NamespaceRootAtom;
+  /** Whether undo and redo are currently possible */
+  statusAtom: Atom<{ canUndo: boolean; canRedo: boolean }>;
+  undoAtom: WritableAtom<null, [], void>;
+  redoAtom: WritableAtom<null, [], void>;
+  clearAtom: WritableAtom<null, [], void>;
+};
+
+/**
+ * Creates undo/redo history for the subtree at path.
+ * Writes made through the returned recordingAtom push the previous subtree
+ * node onto the undo stack, and undo/redo swap only that subtree back in, so
+ * sibling namespaces are never rolled back.
+ *
+ * @param {NamespaceRootAtom} rootAtom - The atom holding the state tree
+ * @param {string[]} path - Namespace path of the recorded subtree
+ * @param {NamespaceHistoryOptions} [options] - Depth and persistence options
+ * @param {boolean} [encrypted] - Whether rootAtom shows the subtree decrypted, so history isn't persisted
+ * @returns {NamespaceHistory} The history atoms
+ */
+export function createNamespaceHistory(
+  rootAtom: NamespaceRootAtom,
+  path: string[],
+  options: NamespaceHistoryOptions = {},
+  encrypted = false,
+): NamespaceHistory {
+  const { depth = 100, storageKey } = options;
+  const emptyStacks: HistoryStacks = { past: [], future: [] };
+  const stacksAtom =
+    storageKey && !encrypted
+      ? atomWithStorage<HistoryStacks>(storageKey, emptyStacks)
+      : atom(emptyStacks);
+
+  const recordingAtom: NamespaceRootAtom = atom(
+    (get) => get(rootAtom),
+    (get, set, update) => {
+      const prevNode = getNamespaceNode(get(rootAtom), path);
+      set(rootAtom, update);
+      const nextNode = getNamespaceNode(get(rootAtom), path);
+      if (nextNode === prevNode || isMaintenanceUpdate(update)) {
+        return;
+      }
+      set(stacksAtom, (stacks) => ({
+        past: [...stacks.past, prevNode].slice(-depth),
+        future: [],
+      }));
+    },
+  );
+
+  const statusAtom = atom((get) => {
+    const { past, future } = get(stacksAtom);
+    return { canUndo: past.length > 0, canRedo: future.length > 0 };
+  });
+
+  // Moves the current subtree onto one stack and restores the top of the other.
+  const swap = (from: "past" | "future") =>
+    atom(null, (get, set) => {
+      const stacks = get(stacksAtom);
+      const restored = stacks[from][stacks[from].length - 1];
+      if (!restored) {
+        return;
+      }
+      const to = from === "past" ? "future" : "past";
+      const current = getNamespaceNode(get(rootAtom), path);
+      set(stacksAtom, {
+        [from]: stacks[from].slice(0, -1),
+        [to]: [...stacks[to], current].slice(-depth),
+      } as HistoryStacks);
+      set(rootAtom, (state) => updateDeepNode(state, path, () => restored));
+    });
+
+  const clearAtom = atom(null, (_get, set) => {
+    set(stacksAtom, emptyStacks);
+  });
+
+  return {
+    recordingAtom,
+    statusAtom,
+    undoAtom: swap("past"),
+    redoAtom: swap("future"),
+    clearAtom,
+  };
+}
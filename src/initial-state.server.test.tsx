@@ -0,0 +1,36 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { renderToString } from "react-dom/server";
+import { atom } from "jotai";
+import { StateNamespaceProvider, useStateNamespaceAtom } from "./jotai-persist";
+
+// Runs without DOM globals, as on a server, where sessionStorage is undefined.
+
+function Counter() {
+  const [count] = useStateNamespaceAtom(null, "count", 0);
+  const [visits] = useStateNamespaceAtom(null, "visits", 0, {
+    persist: "session",
+  });
+  return (
+    <span>
+      {count}/{visits}
+    </span>
+  );
+}
+
+describe("server rendering", () => {
+  it("renders the initial tree without browser storage", () => {
+    expect(typeof sessionStorage).toBe("undefined");
+    const html = renderToString(
+      <StateNamespaceProvider
+        rootAtom={atom<Record<string, unknown>>({})}
+        initialState={{ main: { count: 5 } }}
+      >
+        <StateNamespaceProvider namespace="main">
+          <Counter />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+    expect(html).toContain("5<!-- -->/<!-- -->0");
+  });
+});
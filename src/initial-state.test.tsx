@@ -0,0 +1,125 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+} from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot, type Root } from "react-dom/client";
+import { atom, createStore, Provider } from "jotai";
+import {
+  StateNamespaceProvider,
+  useNamespaceReset,
+  useStateNamespaceAtom,
+} from "./jotai-persist";
+import { getNamespaceNode } from "./namespace-tree";
+
+let root: Root | undefined;
+afterEach(() => {
+  act(() => root?.unmount());
+  root = undefined;
+  document.body.innerHTML = "";
+  sessionStorage.clear();
+  cleanup();
+});
+
+function Counter() {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  const [visits] = useStateNamespaceAtom(null, "visits", 0, {
+    persist: "session",
+  });
+  return (
+    <button data-testid="count" onClick={() => setCount((c) => c + 1)}>
+      {count}/{visits}
+    </button>
+  );
+}
+
+const initialState = { main: { count: 5 } };
+
+function renderApp(
+  rootAtom: ReturnType<typeof atom<Record<string, unknown>>>,
+  store = createStore(),
+) {
+  return (
+    <Provider store={store}>
+      <StateNamespaceProvider rootAtom={rootAtom} initialState={initialState}>
+        <StateNamespaceProvider namespace="main">
+          <Counter />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    </Provider>
+  );
+}
+
+// Renders on the "server" with empty storage, then hydrates the markup on
+// the client with the given stored tree.
+function serverRenderAndHydrate(stored: Record<string, unknown>) {
+  const html = renderToString(renderApp(atom<Record<string, unknown>>({})));
+  const container = document.createElement("div");
+  container.innerHTML = html;
+  document.body.appendChild(container);
+
+  const rootAtom = atom(stored);
+  const store = createStore();
+  const onRecoverableError = vi.fn();
+  act(() => {
+    root = hydrateRoot(container, renderApp(rootAtom, store), {
+      onRecoverableError,
+    });
+  });
+  return { onRecoverableError, rootAtom, store };
+}
+
+describe("initialState", () => {
+  it("renders the initial tree on the server", () => {
+    const html = renderToString(
+      renderApp(atom<Record<string, unknown>>({ main: { count: 2 } })),
+    );
+    expect(html).toContain("5<!-- -->/<!-- -->0");
+  });
+
+  it("hydrates without a mismatch, then reads storage", () => {
+    sessionStorage.setItem(
+      "state-namespace-session",
+      JSON.stringify({ $children: { main: { visits: 3 } } }),
+    );
+    const { onRecoverableError } = serverRenderAndHydrate({
+      main: { count: 2 },
+    });
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(screen.getByTestId("count").textContent).toBe("2/3");
+  });
+
+  it("keeps the initial tree until storage is written", () => {
+    const { onRecoverableError, rootAtom, store } = serverRenderAndHydrate({});
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(screen.getByTestId("count").textContent).toBe("5/0");
+
+    fireEvent.click(screen.getByTestId("count"));
+    expect(screen.getByTestId("count").textContent).toBe("6/0");
+    expect(getNamespaceNode(store.get(rootAtom), ["main"]).count).toBe(6);
+  });
+
+  it("reads defaults rather than the initial tree after a reset", () => {
+    function Reset() {
+      const { resetAll } = useNamespaceReset();
+      return <button data-testid="reset" onClick={resetAll} />;
+    }
+    const rootAtom = atom<Record<string, unknown>>({});
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} initialState={initialState}>
+        <Reset />
+        <StateNamespaceProvider namespace="main">
+          <Counter />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+    expect(screen.getByTestId("count").textContent).toBe("5/0");
+
+    fireEvent.click(screen.getByTestId("reset"));
+    expect(screen.getByTestId("count").textContent).toBe("0/0");
+  });
+});
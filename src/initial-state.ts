@@ -0,0 +1,70 @@
+import { useSyncExternalStore } from "react";
+import { atom } from "jotai";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import { applyUpdate } from "./namespace-tree.js";
+
+const subscribeNever = () => () => {};
+
+/**
+ * Returns true while rendering on the server or hydrating server-rendered
+ * markup, and false once the client has taken over.
+ */
+export function useHydrating(): boolean {
+  return useSyncExternalStore(
+    subscribeNever,
+    () => false,
+    () => true,
+  );
+}
+
+/**
+ * Reserved root entry stamping trees written over an initial state, so a tree
+ * emptied by a reset isn't mistaken for storage that was never written.
+ */
+export const WRITTEN_KEY = "$written";
+
+// Trees that have never been written, such as empty storage on a first visit.
+function isUnwritten(state: Record<string, unknown>) {
+  return Object.keys(state).length === 0;
+}
+
+/**
+ * Creates a view of a root atom starting from a tree supplied up front, for
+ * example by the server. While hydrating the view only reads the initial
+ * tree, so the client renders the same markup as the server. Afterwards it
+ * reads the stored tree, falling back to the initial tree until storage has
+ * been written. Writes always go to the root atom, stamped with WRITTEN_KEY
+ * when there is an initial tree to fall back to.
+ *
+ * @param {NamespaceRootAtom} rootAtom - The atom holding the stored tree
+ * @param {Record<string, unknown>} initialState - The tree rendered by the server
+ * @param {boolean} hydrating - Whether the stored tree is ignored when reading
+ * @returns {NamespaceRootAtom} The view
+ */
+export function createInitialStateAtom(
+  rootAtom: NamespaceRootAtom,
+  initialState: Record<string, unknown>,
+  hydrating: boolean,
+): NamespaceRootAtom {
+  const initialStateAtom: NamespaceRootAtom = atom(
+    (get) => {
+      if (hydrating) {
+        return initialState;
+      }
+      const state = get(rootAtom);
+      return isUnwritten(state) ? initialState : state;
+    },
+    (_get, set, update) =>
+      set(rootAtom, (state) => {
+        const next = applyUpdate(
+          isUnwritten(state) ? initialState : state,
+          update,
+        );
+        return isUnwritten(initialState) || next[WRITTEN_KEY]
+          ? next
+          : { ...next, [WRITTEN_KEY]: true };
+      }),
+  );
+  initialStateAtom.debugLabel = hydrating ? "hydrating tree" : "initial tree";
+  return initialStateAtom;
+}
@@ -1,6 +1,13 @@
 import { useContext } from "react";
-import { describe, it, expect } from "vitest";
-import { render, fireEvent, screen } from "@testing-library/react";
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
 import { atomWithStorage } from "jotai/utils";
 import {
   StateNamespaceProvider,
@@ -8,7 +15,13 @@ import {
   NamespaceContext,
   useStateNamespace,
   useStateNamespaceReducerAtom,
+  useNamespaceReset,
+  StateDebugger,
+  useStateNamespaceSelector,
+  useNamespaceChildren,
+  type NamespaceChildrenControls,
 } from "./jotai-persist";
+import { getNamespaceNode, type NamespaceSubtree } from "./namespace-tree";
 
 // Test component that uses the namespace state
 function TestCounter({ namespace }: { namespace?: string }) {
@@ -315,4 +328,468 @@ describe("StateNamespaceProvider", () => {
       );
     });
   });
+
+  describe("useNamespaceReset", () => {
+    afterEach(cleanup);
+
+    function ResetControls({ testId }: { testId: string }) {
+      const { resetKey, clearNamespace, resetAll } = useNamespaceReset();
+      return (
+        <div>
+          <button
+            onClick={() => resetKey("count")}
+            data-testid={`${testId}-reset-key`}
+          />
+          <button
+            onClick={() => clearNamespace(["child"])}
+            data-testid={`${testId}-clear-child`}
+          />
+          <button
+            onClick={() => resetAll()}
+            data-testid={`${testId}-reset-all`}
+          />
+        </div>
+      );
+    }
+
+    function renderResettable() {
+      const rootAtom = atom<Record<string, unknown>>({
+        reset: { count: 3, other: 1, child: { count: 4 } },
+        sibling: { count: 5 },
+      });
+      render(
+        <StateNamespaceProvider rootAtom={rootAtom}>
+          <StateNamespaceProvider namespace="reset">
+            <CounterContent />
+            <TestCounter namespace="child" />
+            <ResetControls testId="reset" />
+          </StateNamespaceProvider>
+          <TestCounter namespace="sibling" />
+        </StateNamespaceProvider>,
+      );
+    }
+
+    it("resets a single key to its default", () => {
+      renderResettable();
+      fireEvent.click(screen.getByTestId("reset-reset-key"));
+      expect(screen.getByTestId("counter-reset").textContent).toBe("Count: 0");
+      expect(screen.getByTestId("counter-reset-child").textContent).toBe(
+        "Count: 4",
+      );
+    });
+
+    it("clears a child namespace subtree", () => {
+      renderResettable();
+      fireEvent.click(screen.getByTestId("reset-clear-child"));
+      expect(screen.getByTestId("counter-reset").textContent).toBe("Count: 3");
+      expect(screen.getByTestId("counter-reset-child").textContent).toBe(
+        "Count: 0",
+      );
+    });
+
+    it("resets everything under the current namespace", () => {
+      renderResettable();
+      fireEvent.click(screen.getByTestId("reset-reset-all"));
+      expect(screen.getByTestId("counter-reset").textContent).toBe("Count: 0");
+      expect(screen.getByTestId("counter-reset-child").textContent).toBe(
+        "Count: 0",
+      );
+      expect(screen.getByTestId("counter-sibling").textContent).toBe(
+        "Count: 5",
+      );
+
+      // State keeps working after a reset.
+      fireEvent.click(screen.getByTestId("counter-reset"));
+      expect(screen.getByTestId("counter-reset").textContent).toBe("Count: 1");
+    });
+  });
+
+  describe("mounted storage", () => {
+    afterEach(cleanup);
+
+    const selectWizardCount = (subtree: NamespaceSubtree) =>
+      subtree.children.wizard?.values.count ?? 0;
+
+    // Operates on the main namespace from the root provider.
+    function MainControls() {
+      const { resetAll } = useNamespaceReset();
+      const main = useStateNamespace(["main"]);
+      const wizardCount = useStateNamespaceSelector(main, selectWizardCount);
+      const { children, rename } = useNamespaceChildren(main);
+      return (
+        <div>
+          <button data-testid="reset-all" onClick={resetAll} />
+          <button
+            data-testid="rename-wizard"
+            onClick={() => rename("wizard", "setup")}
+          />
+          <span data-testid="main-children">{children.join(",")}</span>
+          <span data-testid="wizard-count">{String(wizardCount)}</span>
+        </div>
+      );
+    }
+
+    function renderMounted() {
+      const rootAtom = atom<Record<string, unknown>>({});
+      const sessionAtom = atom<Record<string, unknown>>({});
+      const store = createStore();
+      render(
+        <Provider store={store}>
+          <StateNamespaceProvider rootAtom={rootAtom} storageName="local">
+            <MainControls />
+            <TestCounter namespace="main" />
+            <StateNamespaceProvider namespace="main">
+              <StateNamespaceProvider
+                namespace="wizard"
+                rootAtom={sessionAtom}
+                storageName="session"
+              >
+                <CounterContent />
+                <TestCounter namespace="step" />
+                <div data-testid="debug-wizard">
+                  <StateDebugger />
+                </div>
+              </StateNamespaceProvider>
+              <div data-testid="debug-main">
+                <StateDebugger />
+              </div>
+            </StateNamespaceProvider>
+          </StateNamespaceProvider>
+        </Provider>,
+      );
+      return { store, rootAtom, sessionAtom };
+    }
+
+    it("keeps a nested subtree in its own storage", () => {
+      const { store, rootAtom, sessionAtom } = renderMounted();
+
+      fireEvent.click(screen.getByTestId("counter-main"));
+      fireEvent.click(screen.getByTestId("counter-main-wizard"));
+      fireEvent.click(screen.getByTestId("counter-main-wizard-step"));
+      fireEvent.click(screen.getByTestId("counter-main-wizard-step"));
+
+      expect(store.get(rootAtom)).toEqual({
+        $layout: 1,
+        $children: { main: { count: 1 } },
+      });
+      // Paths below the mount resolve against the mounted storage's root.
+      expect(store.get(sessionAtom)).toEqual({
+        $layout: 1,
+        $children: {
+          wizard: { count: 1, $children: { step: { count: 2 } } },
+        },
+      });
+    });
+
+    it("reaches backends mounted below from the enclosing namespace", () => {
+      const { store, sessionAtom } = renderMounted();
+
+      fireEvent.click(screen.getByTestId("counter-main-wizard"));
+      fireEvent.click(screen.getByTestId("counter-main-wizard"));
+      expect(screen.getByTestId("wizard-count").textContent).toBe("2");
+      expect(screen.getByTestId("main-children").textContent).toBe("wizard");
+
+      // The mounted subtree can't be renamed out of its backend.
+      expect(() =>
+        fireEvent.click(screen.getByTestId("rename-wizard")),
+      ).toThrow("namespace /main/wizard is stored in session at /main/wizard");
+
+      fireEvent.click(screen.getByTestId("counter-main"));
+      fireEvent.click(screen.getByTestId("reset-all"));
+      expect(screen.getByTestId("counter-main").textContent).toBe("Count: 0");
+      expect(screen.getByTestId("counter-main-wizard").textContent).toBe(
+        "Count: 0",
+      );
+      expect(screen.getByTestId("wizard-count").textContent).toBe("0");
+      expect(store.get(sessionAtom)).toEqual({});
+    });
+
+    it("shows which backend owns which subtree in StateDebugger", () => {
+      renderMounted();
+
+      expect(screen.getByTestId("debug-main").textContent).toContain(
+        "storage: local at /",
+      );
+      expect(screen.getByTestId("debug-main").textContent).toContain(
+        "/main/wizard: session",
+      );
+      expect(screen.getByTestId("debug-wizard").textContent).toContain(
+        "storage: session at /main/wizard",
+      );
+    });
+  });
+
+  describe("key persistence", () => {
+    afterEach(() => {
+      cleanup();
+      sessionStorage.clear();
+    });
+
+    function PersistenceCounters() {
+      const [local, setLocal] = useStateNamespaceAtom(null, "local", 0);
+      const [session, setSession] = useStateNamespaceAtom(null, "session", 0, {
+        persist: "session",
+      });
+      const [hover, setHover] = useStateNamespaceAtom(null, "hover", 0, {
+        persist: "none",
+      });
+      const { resetAll } = useNamespaceReset();
+      return (
+        <div>
+          <span data-testid="values">
+            {local}:{session}:{hover}
+          </span>
+          <button
+            data-testid="inc"
+            onClick={() => {
+              setLocal((c) => c + 1);
+              setSession((c) => c + 1);
+              setHover((c) => c + 1);
+            }}
+          />
+          <button data-testid="reset" onClick={resetAll} />
+          <div data-testid="debug">
+            <StateDebugger />
+          </div>
+        </div>
+      );
+    }
+
+    function renderPersistence(
+      rootAtom = atom<Record<string, unknown>>({}),
+      store = createStore(),
+    ) {
+      render(
+        <Provider store={store}>
+          <StateNamespaceProvider rootAtom={rootAtom} sessionStorageKey="test">
+            <StateNamespaceProvider namespace="main">
+              <PersistenceCounters />
+            </StateNamespaceProvider>
+          </StateNamespaceProvider>
+        </Provider>,
+      );
+      return { store, rootAtom };
+    }
+
+    it("keeps keys in the store matching their persistence", () => {
+      const { store, rootAtom } = renderPersistence();
+
+      fireEvent.click(screen.getByTestId("inc"));
+      expect(screen.getByTestId("values").textContent).toBe("1:1:1");
+      expect(store.get(rootAtom)).toEqual({
+        $layout: 1,
+        $children: { main: { local: 1 } },
+      });
+      expect(JSON.parse(sessionStorage.getItem("test")!)).toEqual({
+        $children: { main: { session: 1 } },
+      });
+    });
+
+    it("restores session keys but not in-memory keys", () => {
+      const { rootAtom, store } = renderPersistence();
+      fireEvent.click(screen.getByTestId("inc"));
+      fireEvent.click(screen.getByTestId("inc"));
+      cleanup();
+
+      // Remounting recreates the in-memory tree, as a reload would.
+      renderPersistence(rootAtom, store);
+      expect(screen.getByTestId("values").textContent).toBe("2:2:0");
+    });
+
+    it("shows every key in StateDebugger and resets them all", () => {
+      renderPersistence();
+      fireEvent.click(screen.getByTestId("inc"));
+
+      for (const key of ["local", "session", "hover"]) {
+        expect(screen.getByLabelText(`Edit main:${key}`).textContent).toBe("1");
+      }
+
+      fireEvent.click(screen.getByTestId("reset"));
+      expect(screen.getByTestId("values").textContent).toBe("0:0:0");
+    });
+  });
+
+  describe("useStateNamespaceSelector", () => {
+    afterEach(cleanup);
+
+    // Sums every count key in a subtree.
+    const sumCounts = (subtree: NamespaceSubtree): number =>
+      Object.values(subtree.children).reduce(
+        (sum, child) => sum + sumCounts(child),
+        typeof subtree.values.count === "number" ? subtree.values.count : 0,
+      );
+
+    function renderTotal() {
+      const renders = { count: 0 };
+      function Total() {
+        renders.count++;
+        const total = useStateNamespaceSelector(null, sumCounts);
+        return <span data-testid="total">{total}</span>;
+      }
+      function Title() {
+        const [title, setTitle] = useStateNamespaceAtom(null, "title", "");
+        return (
+          <button data-testid="title" onClick={() => setTitle(title + "!")}>
+            {title}
+          </button>
+        );
+      }
+      render(
+        <StateNamespaceProvider rootAtom={atom({})}>
+          <TestCounter namespace="outside" />
+          <StateNamespaceProvider namespace="main">
+            <Total />
+            <Title />
+            <CounterContent />
+            <TestCounter namespace="left" />
+            <TestCounter namespace="right" />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>,
+      );
+      return renders;
+    }
+
+    it("derives a value from the whole subtree", () => {
+      renderTotal();
+      fireEvent.click(screen.getByTestId("counter-main"));
+      fireEvent.click(screen.getByTestId("counter-main-left"));
+      fireEvent.click(screen.getByTestId("counter-main-right"));
+      fireEvent.click(screen.getByTestId("counter-main-right"));
+      expect(screen.getByTestId("total").textContent).toBe("4");
+    });
+
+    it("only re-renders when the selected value changes", () => {
+      const renders = renderTotal();
+      const initialRenders = renders.count;
+
+      fireEvent.click(screen.getByTestId("counter-outside"));
+      fireEvent.click(screen.getByTestId("title"));
+      expect(renders.count).toBe(initialRenders);
+
+      fireEvent.click(screen.getByTestId("counter-main-left"));
+      expect(renders.count).toBe(initialRenders + 1);
+    });
+
+    it("compares selected values with equalityFn", () => {
+      const selectKeys = (subtree: NamespaceSubtree) =>
+        Object.keys(subtree.values);
+      const sameKeys = (a: string[], b: string[]) => a.join() === b.join();
+      const renders = { count: 0 };
+      function Keys() {
+        renders.count++;
+        const keys = useStateNamespaceSelector(null, selectKeys, sameKeys);
+        return <span data-testid="keys">{keys.join(",")}</span>;
+      }
+      render(
+        <StateNamespaceProvider rootAtom={atom({})}>
+          <Keys />
+          <CounterContent />
+        </StateNamespaceProvider>,
+      );
+
+      fireEvent.click(screen.getByTestId("counter-root"));
+      expect(screen.getByTestId("keys").textContent).toBe("count");
+      const rendersWithCount = renders.count;
+      fireEvent.click(screen.getByTestId("counter-root"));
+      expect(renders.count).toBe(rendersWithCount);
+    });
+  });
+
+  describe("useNamespaceChildren", () => {
+    afterEach(cleanup);
+
+    function renderTabs() {
+      const rootAtom = atom<Record<string, unknown>>({
+        tabs: { a: { count: 1 }, b: { count: 2, nested: { count: 3 } } },
+        other: { c: { count: 4 } },
+      });
+      const store = createStore();
+      const controls = {} as { current: NamespaceChildrenControls };
+      function Tabs() {
+        controls.current = useNamespaceChildren();
+        return (
+          <>
+            {controls.current.children.map((tab) => (
+              <TestCounter key={tab} namespace={tab} />
+            ))}
+          </>
+        );
+      }
+      render(
+        <Provider store={store}>
+          <StateNamespaceProvider rootAtom={rootAtom}>
+            <StateNamespaceProvider namespace="tabs">
+              <Tabs />
+            </StateNamespaceProvider>
+          </StateNamespaceProvider>
+        </Provider>,
+      );
+      const tree = (...path: string[]) =>
+        getNamespaceNode(store.get(rootAtom), path);
+      return { controls, tree };
+    }
+
+    const count = (testId: string) => screen.getByTestId(testId).textContent;
+
+    it("lists, creates and deletes children", () => {
+      const { controls, tree } = renderTabs();
+      expect(controls.current.children).toEqual(["a", "b"]);
+
+      act(() => controls.current.create("new"));
+      expect(controls.current.children).toEqual(["a", "b", "new"]);
+      fireEvent.click(screen.getByTestId("counter-tabs-new"));
+      expect(count("counter-tabs-new")).toBe("Count: 1");
+
+      act(() => controls.current.remove("a"));
+      expect(controls.current.children).toEqual(["b", "new"]);
+      expect(Object.keys(tree("tabs").$children!)).toEqual(["b", "new"]);
+    });
+
+    it("renames children in place and duplicates them with their state", () => {
+      const { controls, tree } = renderTabs();
+
+      act(() => controls.current.rename("a", "first"));
+      expect(controls.current.children).toEqual(["first", "b"]);
+      expect(count("counter-tabs-first")).toBe("Count: 1");
+
+      act(() => controls.current.duplicate("b", "copy"));
+      expect(count("counter-tabs-copy")).toBe("Count: 2");
+      expect(tree("tabs", "copy")).toEqual({
+        count: 2,
+        $children: { nested: { count: 3 } },
+        $migratedChildren: ["nested"],
+      });
+
+      // The copy is independent of the original.
+      fireEvent.click(screen.getByTestId("counter-tabs-copy"));
+      expect(count("counter-tabs-b")).toBe("Count: 2");
+    });
+
+    it("moves children to other namespaces", () => {
+      const { controls, tree } = renderTabs();
+
+      act(() => controls.current.move("b", { path: ["other"] }, "moved"));
+      expect(controls.current.children).toEqual(["a"]);
+      expect(tree("other").$children).toEqual({
+        c: { count: 4 },
+        moved: {
+          count: 2,
+          $children: { nested: { count: 3 } },
+          $migratedChildren: ["nested"],
+        },
+      });
+    });
+
+    it("refuses to overwrite existing children", () => {
+      const { controls, tree } = renderTabs();
+      const before = tree();
+
+      expect(() => controls.current.rename("a", "b")).toThrow(
+        "namespace /tabs/b already exists",
+      );
+      expect(() => controls.current.create("a")).toThrow();
+      expect(() => controls.current.rename("a", "a")).not.toThrow();
+      expect(tree()).toBe(before);
+    });
+  });
 });
@@ -1,16 +1,236 @@
-import { atom, useAtom, useAtomValue } from "jotai";
-import { atomWithStorage } from "jotai/utils";
-import { createContext, useContext, useMemo, type ReactNode } from "react";
+import {
+  atom,
+  Provider,
+  useAtomValue,
+  useSetAtom,
+  useStore,
+  type PrimitiveAtom,
+  type SetStateAction,
+  type WritableAtom,
+} from "jotai";
+import { atomWithStorage, createJSONStorage, selectAtom } from "jotai/utils";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type ComponentProps,
+  type ReactNode,
+} from "react";
 import { useMemoEqual } from "./memo-equal.js";
+import {
+  getNamespaceHydration,
+  type NamespaceHydration,
+} from "./async-storage.js";
+import { atomWithWritePolicy, type WritePolicy } from "./write-policy.js";
+import {
+  applyUpdate,
+  copyDeepNode,
+  describeUpdate,
+  getChildNodes,
+  getNamespaceNode,
+  getNamespaceSubtree,
+  getUpdateDescription,
+  hasDeepNode,
+  isMigratedChild,
+  isMaintenanceUpdate,
+  markMaintenanceUpdate,
+  mergeTrees,
+  migrateTreeLayout,
+  moveDeepNode,
+  removeDeepNode,
+  updateDeepNode,
+  type NamespaceSubtree,
+} from "./namespace-tree.js";
+import {
+  createNamespaceHistory,
+  type NamespaceHistory,
+  type NamespaceHistoryOptions,
+} from "./history.js";
+import {
+  collectGarbage,
+  createGcTracker,
+  stampAccesses,
+  type GarbageReport,
+  type NamespaceGcOptions,
+  type NamespaceGcTracker,
+} from "./garbage-collection.js";
+import {
+  createCrossTabSync,
+  type CrossTabSync,
+  type CrossTabSyncOptions,
+  type SyncConflict,
+} from "./cross-tab-sync.js";
+import {
+  getRenderingComponentName,
+  noKeyUsersAtom,
+  type KeyUser,
+} from "./key-users.js";
+import {
+  createDevtoolsAtom,
+  type NamespaceDevtoolsOptions,
+} from "./devtools.js";
+import { StateInspector } from "./state-inspector.js";
+import { createInitialStateAtom, useHydrating } from "./initial-state.js";
+import { createEncryptedAtom, type NamespaceEncryption } from "./encryption.js";
+import {
+  createQuotaAtom,
+  createQuotaTracker,
+  getStorageStats,
+  type NamespaceQuotaOptions,
+  type NamespaceQuotaTracker,
+  type NamespaceStorageStats,
+} from "./storage-quota.js";
+import {
+  getMiddleware,
+  runMiddleware,
+  type NamespaceMiddleware,
+  type NamespaceMiddlewareScope,
+} from "./middleware.js";
+import { registerTreeProvider, type NamespaceStateTree } from "./state-tree.js";
+import {
+  createCollisionDetector,
+  type CollisionDetector,
+} from "./collisions.js";
+import {
+  getKeyVersion,
+  migrateNamespaceNode,
+  NAMESPACE_VERSION_KEY,
+  setKeyVersion,
+  type Migration,
+} from "./migrations.js";
+import {
+  formatPath,
+  getKeyAtom,
+  getNodeAtom,
+  noKeysAtom,
+} from "./atom-cache.js";
+import {
+  createSnapshot,
+  importSubtree,
+  parseSnapshot,
+  type SnapshotImportMode,
+  type StateSnapshot,
+} from "./snapshots.js";
+import {
+  getDefaultSerializer,
+  getUrlParamName,
+  readUrlParam,
+  subscribeUrl,
+  writeUrlParam,
+  type UrlBinding,
+} from "./url-binding.js";
+import {
+  InvalidNamespaceValueError,
+  readKeyValue,
+  readStoredValue,
+  writeKeyValue,
+  type StoredValueOptions,
+} from "./validation.js";
+
+/**
+ * Atom holding the whole namespaced state tree
+ */
+export type NamespaceRootAtom = WritableAtom<
+  Record<string, unknown>,
+  [SetStateAction<Record<string, unknown>>],
+  void
+>;
 
 /**
  * Context type for managing namespaced state
  */
 type NamespaceContextType = {
   namespace: string[];
-  namespaceAtom: ReturnType<
-    typeof atomWithStorage<Record<string, unknown>>
-  > | null;
+  namespaceAtom: NamespaceRootAtom | null;
+  reportError: (error: InvalidNamespaceValueError) => void;
+  hydration: NamespaceHydration | null;
+  history: NamespaceHistory | null;
+  gc: NamespaceGc | null;
+  collisions: CollisionDetector | null;
+  storage: NamespaceStorageMount | null;
+  mountsAtom: PrimitiveAtom<MountedStorage[]> | null;
+  keyStorage: KeyStorage | null;
+  sync: CrossTabSync | null;
+  keyUsersAtom: PrimitiveAtom<KeyUser[]> | null;
+  quota: NamespaceQuotaTracker | null;
+  middleware: NamespaceMiddlewareScope[];
+  stateTree: NamespaceStateTree | null;
+  encrypted: boolean;
+};
+
+/**
+ * Where a namespaced key's value is kept: only in memory, in
+ * sessionStorage, or in the provider's rootAtom
+ */
+export type KeyPersistence = "none" | "session" | "local";
+
+/**
+ * Trees holding the keys that aren't persisted in the rootAtom
+ */
+type KeyStorage = Record<Exclude<KeyPersistence, "local">, NamespaceRootAtom>;
+
+// Creates the memory and sessionStorage trees of a provider tree. Without
+// sessionStorage, as in server rendering, session keys are kept in memory.
+function createKeyStorage(sessionStorageKey: string): KeyStorage {
+  return {
+    none: atom<Record<string, unknown>>({}),
+    session:
+      typeof sessionStorage === "undefined"
+        ? atom<Record<string, unknown>>({})
+        : atomWithStorage<Record<string, unknown>>(
+            sessionStorageKey,
+            {},
+            createJSONStorage(() => sessionStorage),
+            { getOnInit: true },
+          ),
+  };
+}
+
+/**
+ * A storage backend mounted at a namespace path
+ */
+export type NamespaceStorageMount = {
+  /** Name of the backend, e.g. "sessionStorage" */
+  name: string;
+  /** Namespace path of the subtree the backend holds */
+  path: string[];
+};
+
+/**
+ * A mounted backend with the view writing to it, in which its subtree sits at
+ * its namespace path
+ */
+type MountedStorage = {
+  storage: NamespaceStorageMount;
+  storageAtom: NamespaceRootAtom;
+};
+
+// Returns the backends mounted at or below path by nested providers, other
+// than the one holding the given namespace.
+function getNestedMounts(
+  mounts: MountedStorage[],
+  path: string[],
+  storage: NamespaceStorageMount | null,
+): MountedStorage[] {
+  return mounts.filter(
+    (mount) =>
+      mount.storage !== storage &&
+      mount.storage.path.length >= path.length &&
+      path.every((segment, i) => mount.storage.path[i] === segment),
+  );
+}
+
+/**
+ * Garbage collection state shared with the hooks of a subtree
+ */
+type NamespaceGc = {
+  tracker: NamespaceGcTracker;
+  collect: (options?: { dryRun?: boolean }) => GarbageReport;
 };
 
 /**
@@ -20,6 +240,20 @@ type NamespaceContextType = {
 export const NamespaceContext = createContext<NamespaceContextType>({
   namespace: [],
   namespaceAtom: null,
+  reportError: () => {},
+  hydration: null,
+  history: null,
+  gc: null,
+  collisions: null,
+  storage: null,
+  mountsAtom: null,
+  keyStorage: null,
+  sync: null,
+  keyUsersAtom: null,
+  quota: null,
+  middleware: [],
+  stateTree: null,
+  encrypted: false,
 });
 
 /**
@@ -27,44 +261,636 @@ export const NamespaceContext = createContext<NamespaceContextType>({
  * @param {Object} props - Component props
  * @param {ReactNode} props.children - Child components
  * @param {string} [props.namespace] - Optional namespace identifier
- * @param {ReturnType<typeof atomWithStorage<Record<string, unknown>>>} [props.rootAtom] - Optional root storage atom
+ * @param {NamespaceRootAtom} [props.rootAtom] - Optional storage atom, holding this subtree when nested
+ * @param {Record<string, unknown>} [props.initialState] - Optional tree of the rootAtom rendered on the server, read until the client has hydrated and while storage is empty
+ * @param {string} [props.storageName] - Optional name of the rootAtom's backend shown by StateDebugger
+ * @param {string} [props.sessionStorageKey] - sessionStorage entry of keys with persist "session", set on the outermost provider
+ * @param {number} [props.version] - Optional schema version of this namespace
+ * @param {Migration[]} [props.migrations] - Migrations applied to the namespace node, migrations[i] upgrades version i
+ * @param {Function} [props.onError] - Optional callback for invalid persisted values in this subtree
+ * @param {WritePolicy} [props.writePolicy] - Optional policy coalescing writes made in this subtree
+ * @param {NamespaceHistoryOptions} [props.history] - Optional undo/redo history for this subtree, covering keys stored in the rootAtom
+ * @param {NamespaceGcOptions} [props.gc] - Optional pruning of state not used within a retention window
+ * @param {CrossTabSyncOptions | false} [props.sync] - Optional cross-tab sync of the rootAtom's tree, or false to opt this subtree out
+ * @param {NamespaceDevtoolsOptions | boolean} [props.devtools] - Optional logging of this subtree's writes to Redux DevTools
+ * @param {NamespaceEncryption} [props.encryption] - Optional AES-GCM encryption of this namespace's subtree in storage
+ * @param {NamespaceQuotaOptions} [props.quota] - Optional recovery from the rootAtom's storage being full, set with rootAtom
+ * @param {NamespaceMiddleware[]} [props.middleware] - Optional middleware wrapping writes to keys in this subtree, inside the parent's middleware
+ * @param {NamespaceStateTree} [props.tree] - Optional tree created with createStateTree, mounted as the rootAtom in its store by the outermost provider
  */
 export function StateNamespaceProvider({
+  tree,
+  ...props
+}: Omit<ComponentProps<typeof NamespaceContextProvider>, "stateTree"> & {
+  tree?: NamespaceStateTree;
+}) {
+  const { namespaceAtom } = useContext(NamespaceContext);
+  if (!tree) {
+    return <NamespaceContextProvider {...props} />;
+  }
+  // The tree's store replaces the enclosing one, which parent providers use.
+  if (namespaceAtom) {
+    throw new Error(
+      "a state tree can only be mounted by the outermost provider",
+    );
+  }
+  return (
+    <Provider store={tree.store}>
+      <NamespaceContextProvider
+        {...props}
+        rootAtom={tree.rootAtom}
+        stateTree={tree}
+      />
+    </Provider>
+  );
+}
+
+// Builds the namespace context of a provider, within the store in use.
+function NamespaceContextProvider({
   children,
   namespace,
   rootAtom,
+  initialState,
+  storageName,
+  sessionStorageKey = "state-namespace-session",
+  version,
+  migrations,
+  onError,
+  writePolicy,
+  history,
+  gc,
+  sync,
+  devtools,
+  encryption,
+  quota,
+  middleware,
+  stateTree,
 }: {
   children: ReactNode;
   namespace?: string;
-  rootAtom?: ReturnType<typeof atomWithStorage<Record<string, unknown>>>;
+  rootAtom?: NamespaceRootAtom;
+  initialState?: Record<string, unknown>;
+  storageName?: string;
+  sessionStorageKey?: string;
+  version?: number;
+  migrations?: Migration[];
+  onError?: (error: InvalidNamespaceValueError) => void;
+  writePolicy?: WritePolicy;
+  history?: NamespaceHistoryOptions;
+  gc?: NamespaceGcOptions;
+  sync?: CrossTabSyncOptions | false;
+  devtools?: NamespaceDevtoolsOptions | boolean;
+  encryption?: NamespaceEncryption;
+  quota?: NamespaceQuotaOptions;
+  middleware?: NamespaceMiddleware[];
+  stateTree?: NamespaceStateTree;
 }) {
   const parentContext = useContext(NamespaceContext);
   const newNamespace = namespace
     ? [...parentContext.namespace, namespace]
     : parentContext.namespace;
 
-  // Memoize the check for root namespace to avoid unnecessary recalculations
-  const isRootNamespace = useMemo(
-    () => !parentContext.namespace.length,
-    [parentContext.namespace.length],
+  // Server-rendered trees are passed as initialState. Storage is only read
+  // once hydrated, so the client's first render matches the server's.
+  const hydrating = useHydrating();
+  const sourceAtom = useMemo(
+    () =>
+      rootAtom && initialState
+        ? createInitialStateAtom(rootAtom, initialState, hydrating)
+        : rootAtom,
+    [rootAtom, initialState, hydrating],
   );
 
-  const namespaceAtom = useMemo(() => {
-    if (isRootNamespace && rootAtom) {
-      return rootAtom;
+  // A rootAtom holds the tree from the parent's namespace down, so nested
+  // providers can mount a different backend at their subtree. Its tree is
+  // read through a view migrating the layout that stored child namespaces
+  // next to key values, persisted on the next write.
+  const mountPath = useMemoEqual(parentContext.namespace, compareStringArrays);
+  const inheritedAtom = useMemo(() => {
+    if (!sourceAtom) {
+      return parentContext.namespaceAtom;
     }
-    return parentContext.namespaceAtom;
-  }, [isRootNamespace, rootAtom, parentContext.namespaceAtom]);
+    const migratedRootAtom = createMigratedAtom(
+      sourceAtom,
+      migrateTreeLayout,
+      false,
+    );
+    return mountPath.length
+      ? createMountedAtom(migratedRootAtom, mountPath)
+      : migratedRootAtom;
+  }, [sourceAtom, mountPath, parentContext.namespaceAtom]);
+
+  // Quota errors thrown by the rootAtom's storage are recovered from by
+  // freeing space in its subtree. Options are read when an error occurs.
+  const quotaRef = useRef(quota);
+  useEffect(() => {
+    quotaRef.current = quota;
+  }, [quota]);
+  const hasQuota = !!rootAtom && !!quota;
+  const quotaTracker = useMemo(
+    () => (hasQuota ? createQuotaTracker() : null),
+    [hasQuota],
+  );
+  const storageAtom = useMemo(() => {
+    if (!inheritedAtom || !quotaTracker) {
+      return inheritedAtom;
+    }
+    return createQuotaAtom(
+      inheritedAtom,
+      mountPath,
+      quotaTracker,
+      () => quotaRef.current ?? {},
+    );
+  }, [inheritedAtom, mountPath, quotaTracker]);
+
+  // The backend owning this subtree, for StateDebugger.
+  const storage = useMemo(
+    () =>
+      rootAtom
+        ? {
+            name: storageName ?? "default",
+            path: namespace ? [...mountPath, namespace] : mountPath,
+          }
+        : parentContext.storage,
+    [rootAtom, storageName, namespace, mountPath, parentContext.storage],
+  );
+  const parentMountsAtom = parentContext.mountsAtom;
+  const mountsAtom = useMemo(
+    () => parentMountsAtom ?? atom<MountedStorage[]>([]),
+    [parentMountsAtom],
+  );
+  const setMounts = useSetAtom(mountsAtom);
+
+  // Synced trees exchange key-level patches with other tabs as writes reach
+  // storage. Keep onConflict stable so the sync isn't rebuilt when it changes.
+  const onConflict = sync ? sync.onConflict : undefined;
+  const onConflictRef = useRef(onConflict);
+  useEffect(() => {
+    onConflictRef.current = onConflict;
+  }, [onConflict]);
+  const syncChannel = sync ? sync.channel : undefined;
+  const syncTransport = sync ? sync.transport : undefined;
+  const crossTabSync = useMemo(() => {
+    if (!storageAtom || !syncChannel) {
+      return null;
+    }
+    return createCrossTabSync(storageAtom, {
+      channel: syncChannel,
+      transport: syncTransport,
+      onConflict: (conflict: SyncConflict) =>
+        onConflictRef.current
+          ? onConflictRef.current(conflict)
+          : conflict.remote,
+    });
+  }, [storageAtom, syncChannel, syncTransport]);
+  const namespaceSync = crossTabSync ?? (rootAtom ? null : parentContext.sync);
+  const syncedAtom = crossTabSync?.syncAtom ?? storageAtom;
+
+  // Backends are registered for StateDebugger, and so operations on an
+  // enclosing namespace, like resets, reach them.
+  useEffect(() => {
+    if (!rootAtom || !storage || !syncedAtom) {
+      return;
+    }
+    const mount = { storage, storageAtom: syncedAtom };
+    setMounts((mounts) => [...mounts, mount]);
+    return () => setMounts((mounts) => mounts.filter((m) => m !== mount));
+  }, [rootAtom, storage, syncedAtom, setMounts]);
+
+  const inheritedHydration = useMemo(() => {
+    if (rootAtom) {
+      return getNamespaceHydration(rootAtom);
+    }
+    return parentContext.hydration;
+  }, [rootAtom, parentContext.hydration]);
+
+  // Encrypted subtrees are stored as ciphertext, which other tabs receive as
+  // is. Keep onError stable so the subtree isn't decrypted again when it changes.
+  const memoNamespace = useMemoEqual(newNamespace, compareStringArrays);
+  const encryptionKey = encryption ? encryption.key : undefined;
+  const onEncryptionError = encryption ? encryption.onError : undefined;
+  const onEncryptionErrorRef = useRef(onEncryptionError);
+  useEffect(() => {
+    onEncryptionErrorRef.current = onEncryptionError;
+  }, [onEncryptionError]);
+  const encrypted = useMemo(() => {
+    if (!syncedAtom || encryptionKey === undefined) {
+      return null;
+    }
+    return createEncryptedAtom(
+      syncedAtom,
+      memoNamespace,
+      {
+        key: encryptionKey,
+        onError: (error) =>
+          (onEncryptionErrorRef.current ?? console.error)(error),
+      },
+      inheritedHydration,
+    );
+  }, [syncedAtom, memoNamespace, encryptionKey, inheritedHydration]);
+  const securedAtom = encrypted?.encryptedAtom ?? syncedAtom;
+  const hydration = encrypted?.hydration ?? inheritedHydration;
+  // Views below an encrypted provider show its subtree as plaintext, unless
+  // they mount a backend of their own.
+  const inEncryptedSubtree =
+    !!encrypted || (!rootAtom && parentContext.encrypted);
+
+  // Writes made under a write policy are buffered and flushed to storage later.
+  const memoWritePolicy = useMemoEqual(writePolicy, compareShallowObjects);
+  const bufferedAtom = useMemo(() => {
+    if (!securedAtom || !memoWritePolicy) {
+      return securedAtom;
+    }
+    return atomWithWritePolicy(securedAtom, memoWritePolicy);
+  }, [securedAtom, memoWritePolicy]);
+
+  // Writes are logged to devtools before they are buffered.
+  const memoDevtools = useMemoEqual(
+    devtools === true ? {} : devtools || null,
+    compareShallowObjects,
+  );
+  const loggedAtom = useMemo(() => {
+    if (!bufferedAtom || !memoDevtools) {
+      return bufferedAtom;
+    }
+    return createDevtoolsAtom(bufferedAtom, memoDevtools);
+  }, [bufferedAtom, memoDevtools]);
+
+  // Keep reportError stable so namespaced atoms aren't rebuilt when onError changes.
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+  const parentReportError = parentContext.reportError;
+  const reportError = useCallback(
+    (error: InvalidNamespaceValueError) => {
+      if (onErrorRef.current) {
+        onErrorRef.current(error);
+      } else {
+        parentReportError(error);
+      }
+    },
+    [parentReportError],
+  );
+
+  // Namespaces declaring a schema version see their node through a migrating view.
+  // Migrations are read when migrating, so inline arrays don't rebuild the
+  // view and everything below it on each render.
+  const migrationsRef = useRef(migrations);
+  useEffect(() => {
+    migrationsRef.current = migrations;
+  }, [migrations]);
+  const migratedAtom = useMemo(() => {
+    if (!loggedAtom || !version) {
+      return loggedAtom;
+    }
+    // A failing migration leaves the node as stored. It is reported once, after
+    // the read, so onError isn't called while rendering.
+    const failedNodes = new WeakSet<object>();
+    return createMigratedAtom(loggedAtom, (state) => {
+      const node = getNamespaceNode(state, memoNamespace);
+      let migrated: Record<string, unknown>;
+      try {
+        migrated = migrateNamespaceNode(
+          node,
+          version,
+          migrationsRef.current ?? [],
+        );
+      } catch (error) {
+        if (!failedNodes.has(node)) {
+          failedNodes.add(node);
+          queueMicrotask(() =>
+            reportError(
+              new InvalidNamespaceValueError(
+                memoNamespace,
+                NAMESPACE_VERSION_KEY,
+                node,
+                error,
+              ),
+            ),
+          );
+        }
+        return state;
+      }
+      return migrated === node
+        ? state
+        : updateDeepNode(state, memoNamespace, () => migrated);
+    });
+  }, [loggedAtom, memoNamespace, version, reportError]);
+
+  // Namespaces with history record writes to their subtree for undo/redo.
+  const memoHistoryOptions = useMemoEqual(history, compareShallowObjects);
+  const namespaceHistory = useMemo(() => {
+    if (!migratedAtom || !memoHistoryOptions) {
+      return parentContext.history;
+    }
+    return createNamespaceHistory(
+      migratedAtom,
+      memoNamespace,
+      memoHistoryOptions,
+      inEncryptedSubtree,
+    );
+  }, [
+    migratedAtom,
+    memoNamespace,
+    memoHistoryOptions,
+    inEncryptedSubtree,
+    parentContext.history,
+  ]);
+  const namespaceAtom =
+    namespaceHistory && namespaceHistory !== parentContext.history
+      ? namespaceHistory.recordingAtom
+      : migratedAtom;
+
+  // Key and namespace name collisions are only detected in development.
+  const parentCollisions = parentContext.collisions;
+  const collisions = useMemo(
+    () =>
+      parentCollisions ??
+      (import.meta.env.DEV ? createCollisionDetector() : null),
+    [parentCollisions],
+  );
+  useEffect(() => {
+    if (!collisions || !namespace) {
+      return;
+    }
+    return collisions.register(
+      memoNamespace.slice(0, -1),
+      namespace,
+      "namespace",
+    );
+  }, [collisions, memoNamespace, namespace]);
+
+  // Components using each key are only tracked in development, for StateDebugger.
+  const parentKeyUsersAtom = parentContext.keyUsersAtom;
+  const keyUsersAtom = useMemo(
+    () =>
+      parentKeyUsersAtom ?? (import.meta.env.DEV ? atom<KeyUser[]>([]) : null),
+    [parentKeyUsersAtom],
+  );
+
+  // Subtrees opting out of sync neither send nor apply patches.
+  const optOut = sync === false;
+  useEffect(() => {
+    if (optOut && namespaceSync) {
+      return namespaceSync.exclude(memoNamespace);
+    }
+  }, [optOut, namespaceSync, memoNamespace]);
+
+  // Keys not persisted in the rootAtom share trees across the provider tree.
+  const parentKeyStorage = parentContext.keyStorage;
+  const baseKeyStorage = useMemo(
+    () => parentKeyStorage ?? createKeyStorage(sessionStorageKey),
+    [parentKeyStorage, sessionStorageKey],
+  );
+  // The server has no sessionStorage, so session keys render their defaults
+  // until hydrated.
+  const keyStorage = useMemo(
+    () =>
+      hydrating && !parentKeyStorage
+        ? {
+            ...baseKeyStorage,
+            session: createInitialStateAtom(baseKeyStorage.session, {}, true),
+          }
+        : baseKeyStorage,
+    [hydrating, parentKeyStorage, baseKeyStorage],
+  );
+
+  // Middleware is read on each write, so passing a new array doesn't change
+  // the context. It wraps writes in this subtree, inside the parent's.
+  const middlewareRef = useRef(middleware);
+  useEffect(() => {
+    middlewareRef.current = middleware;
+  }, [middleware]);
+  const hasMiddleware = !!middleware;
+  const parentMiddleware = parentContext.middleware;
+  const middlewareScopes = useMemo(
+    () =>
+      hasMiddleware
+        ? [
+            ...parentMiddleware,
+            {
+              path: memoNamespace,
+              getMiddleware: () => middlewareRef.current ?? [],
+            },
+          ]
+        : parentMiddleware,
+    [hasMiddleware, parentMiddleware, memoNamespace],
+  );
+
+  // The state tree reads and writes keys in this subtree through this
+  // provider, so they get its storage features and middleware.
+  const namespaceTree = stateTree ?? parentContext.stateTree;
+  useEffect(() => {
+    if (!namespaceTree || !namespaceAtom) {
+      return;
+    }
+    return registerTreeProvider(namespaceTree, {
+      path: memoNamespace,
+      namespaceAtom,
+      middleware: middlewareScopes,
+    });
+  }, [namespaceTree, namespaceAtom, memoNamespace, middlewareScopes]);
+
+  const namespaceGc = useGarbageCollection(
+    gc,
+    namespaceAtom,
+    memoNamespace,
+    hydration,
+    parentContext.gc,
+  );
 
   return (
     <NamespaceContext.Provider
-      value={{ namespace: newNamespace, namespaceAtom }}
+      value={{
+        namespace: newNamespace,
+        namespaceAtom,
+        reportError,
+        hydration,
+        history: namespaceHistory,
+        gc: namespaceGc,
+        collisions,
+        storage,
+        mountsAtom,
+        keyStorage,
+        sync: namespaceSync,
+        keyUsersAtom,
+        quota: quotaTracker ?? parentContext.quota,
+        middleware: middlewareScopes,
+        stateTree: namespaceTree,
+        encrypted: inEncryptedSubtree,
+      }}
     >
       {children}
     </NamespaceContext.Provider>
   );
 }
 
+// Sets up garbage collection for a provider with the gc prop, or inherits it.
+function useGarbageCollection(
+  options: NamespaceGcOptions | undefined,
+  namespaceAtom: NamespaceRootAtom | null,
+  path: string[],
+  hydration: NamespaceHydration | null,
+  parentGc: NamespaceGc | null,
+): NamespaceGc | null {
+  const store = useStore();
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  const enabled = !!options && !!namespaceAtom;
+  const tracker = useMemo(
+    () => (enabled ? createGcTracker() : null),
+    [enabled],
+  );
+
+  const collect = useCallback(
+    ({ dryRun = optionsRef.current?.dryRun } = {}): GarbageReport => {
+      const retention = optionsRef.current?.retention;
+      if (
+        !tracker ||
+        !namespaceAtom ||
+        retention === undefined ||
+        (hydration && !store.get(hydration.hydratedAtom))
+      ) {
+        return { keys: [], namespaces: [] };
+      }
+      const now = Date.now();
+      const accesses = tracker.getAccesses();
+      const collectState = (state: Record<string, unknown>) =>
+        collectGarbage(stampAccesses(state, accesses), path, {
+          cutoff: now - retention,
+          now,
+          isMounted: tracker.isMounted,
+        });
+      const { report } = collectState(store.get(namespaceAtom));
+      if (!dryRun) {
+        store.set(
+          namespaceAtom,
+          markMaintenanceUpdate((state) => collectState(state).state),
+        );
+        tracker.clearAccesses();
+      }
+      return report;
+    },
+    [store, tracker, namespaceAtom, path, hydration],
+  );
+
+  // Stamps recorded accesses without collecting.
+  const writeAccesses = useCallback(() => {
+    const accesses = tracker?.getAccesses();
+    if (
+      !namespaceAtom ||
+      !accesses?.length ||
+      (hydration && !store.get(hydration.hydratedAtom))
+    ) {
+      return;
+    }
+    store.set(
+      namespaceAtom,
+      markMaintenanceUpdate((state) => stampAccesses(state, accesses)),
+    );
+    tracker?.clearAccesses();
+  }, [store, tracker, namespaceAtom, hydration]);
+
+  // Access times are written with each collection, and when the page is
+  // hidden or the provider unmounts, rather than on every mount.
+  useEffect(() => {
+    if (!tracker || typeof window === "undefined") {
+      return;
+    }
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        writeAccesses();
+      }
+    };
+    window.addEventListener("pagehide", writeAccesses);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("pagehide", writeAccesses);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      writeAccesses();
+    };
+  }, [tracker, writeAccesses]);
+
+  // Collect once hydrated and mounted hooks have stamped their keys, then on
+  // an interval.
+  const hydrated = useAtomValue(hydration?.hydratedAtom ?? alwaysHydratedAtom);
+  const interval = options?.interval;
+  useEffect(() => {
+    if (!tracker || !hydrated) {
+      return;
+    }
+    const run = () => {
+      const report = collect();
+      optionsRef.current?.onCollect?.(report);
+    };
+    run();
+    if (!interval) {
+      return;
+    }
+    const timer = setInterval(run, interval);
+    return () => clearInterval(timer);
+  }, [tracker, hydrated, collect, interval]);
+
+  return useMemo(
+    () => (tracker ? { tracker, collect } : parentGc),
+    [tracker, collect, parentGc],
+  );
+}
+
+// Records the access times of a key mounted under garbage collection.
+function useTrackKeyAccess(path: string[], key: string) {
+  const { gc } = useContext(NamespaceContext);
+  useEffect(() => gc?.tracker.track(path, key), [gc, path, key]);
+}
+
+// Registers a mounted key, so storage quota recovery keeps its namespace and
+// knows which keys are non-essential.
+function useTrackQuotaKey(path: string[], key: string, essential: boolean) {
+  const { quota } = useContext(NamespaceContext);
+  useEffect(
+    () => quota?.track(path, key, essential),
+    [quota, path, key, essential],
+  );
+}
+
+// Registers a key's name so development builds warn about collisions.
+function useDetectKeyCollision(path: string[], key: string) {
+  const { collisions } = useContext(NamespaceContext);
+  useEffect(
+    () => collisions?.register(path, key, "key"),
+    [collisions, path, key],
+  );
+}
+
+// Lists the component among the users of the key while mounted, in
+// development builds. Without a debugName it is named after the component
+// rendering, read from the stack on the first render.
+function useRegisterKeyUser(
+  path: string[],
+  key: string,
+  debugName: string | undefined,
+) {
+  const { keyUsersAtom } = useContext(NamespaceContext);
+  const setUsers = useSetAtom(keyUsersAtom ?? noKeyUsersAtom);
+  const renderingNameRef = useRef<string | null>(null);
+  if (import.meta.env.DEV && !debugName && !renderingNameRef.current) {
+    renderingNameRef.current = getRenderingComponentName() ?? "Anonymous";
+  }
+  const component = debugName ?? renderingNameRef.current ?? "Anonymous";
+  useEffect(() => {
+    if (!import.meta.env.DEV || !keyUsersAtom) {
+      return;
+    }
+    const user = { path, key, component };
+    setUsers((users) => [...users, user]);
+    return () => setUsers((users) => users.filter((u) => u !== user));
+  }, [keyUsersAtom, setUsers, path, key, component]);
+}
+
 /**
  * Type representing a state namespace path
  */
@@ -85,34 +911,311 @@ export function useStateNamespace(additionalPath: string[]): StateNamespace {
   );
 }
 
-function createNamespacedAtom<T>(
-  storageAtom: ReturnType<typeof atomWithStorage<Record<string, unknown>>>,
+/**
+ * Options for a namespaced key
+ */
+export type NamespacedAtomOptions<T> = StoredValueOptions<T> & {
+  /** Where the value is kept, defaults to "local" (the rootAtom) */
+  persist?: KeyPersistence;
+  /** Mirrors the value to a URL parameter, which takes precedence on load */
+  url?: UrlBinding<T> | boolean;
+  /** Whether the value is kept when storage is full, defaults to true */
+  essential?: boolean;
+  /**
+   * Name of the component using the key, shown by the development tools.
+   * Defaults to the component's function name, which minified builds lose.
+   */
+  debugName?: string;
+};
+
+// Identity update used on mount to write migrated or invalid values back.
+function writeBack<T>(prev: T): T {
+  return prev;
+}
+
+// Key updates applied as maintenance, like writeBack: written without
+// middleware, and skipped by history, sync and devtools.
+const maintenanceKeyUpdates = new WeakSet<object>([writeBack]);
+
+function markMaintenanceKeyUpdate<T>(update: (prev: T) => T) {
+  maintenanceKeyUpdates.add(update);
+  return update;
+}
+
+// Writes a key. Reducers pass the dispatched action along to describe the write.
+type NamespacedSetter<T> = (
+  update: T | ((prev: T) => T),
+  dispatched?: { action: unknown },
+) => void;
+
+// Reads a key through the shared key atom, so the component only re-renders
+// when that key changes. The setter is stable for a given key.
+function useNamespacedValue<T>(
+  namespace: StateNamespace | null,
+  key: string,
+  defaultValue: T,
+  options: NamespacedAtomOptions<T> = {},
+): [T, NamespacedSetter<T>] {
+  const context = useContext(NamespaceContext);
+
+  // this useMemoEqual is necessary to avoid an infinite rerender loop.
+  const path = useMemoEqual(
+    namespace?.path || context.namespace,
+    compareStringArrays,
+  );
+
+  const store = useStore();
+  const storageAtom = useKeyStorageAtom(options.persist);
+  const entry = useAtomValue(getKeyAtom(storageAtom, path, key));
+
+  const { version, migrations, parse } = options;
+  const { reportError, middleware: middlewareScopes } = context;
+  const { value } = useMemo(
+    () =>
+      readStoredValue(entry, path, key, defaultValue, {
+        version,
+        migrations,
+        parse,
+      }),
+    [entry, path, key, defaultValue, version, migrations, parse],
+  );
+
+  // The latest default, options and middleware, read when writing.
+  const latestRef = useRef({
+    defaultValue,
+    options,
+    reportError,
+    middlewareScopes,
+  });
+  useEffect(() => {
+    latestRef.current = {
+      defaultValue,
+      options,
+      reportError,
+      middlewareScopes,
+    };
+  });
+
+  const setValue: NamespacedSetter<T> = useCallback(
+    (update, dispatched) => {
+      const { defaultValue, options, reportError, middlewareScopes } =
+        latestRef.current;
+      const version = options.version ?? 0;
+      const read = (node: Record<string, unknown>) =>
+        readKeyValue(node, path, key, defaultValue, options);
+
+      const node = getNamespaceNode(store.get(storageAtom), path);
+      const { error, readOnly } = read(node);
+      // Stored values that must be rewritten once mounted, including object
+      // values the layout migration took for a child namespace.
+      const needsWriteBack =
+        isMigratedChild(node, key) ||
+        (node[key] != null && (!!error || getKeyVersion(node, key) < version));
+      if (update === writeBack && !needsWriteBack) {
+        return;
+      }
+      if (error) {
+        reportError?.(error);
+      }
+      // Values written by a newer schema are left as they are.
+      if (readOnly) {
+        return;
+      }
+
+      // Resolve the update against the latest tree so queued writes compose.
+      const resolve = (prev: T) =>
+        typeof update === "function"
+          ? (update as (prev: T) => T)(prev)
+          : update;
+      const writeTree =
+        (getValue: (prev: T) => T) => (prevState: Record<string, unknown>) =>
+          writeKeyValue(prevState, path, key, defaultValue, options, getValue);
+      if (typeof update === "function" && maintenanceKeyUpdates.has(update)) {
+        store.set(storageAtom, markMaintenanceUpdate(writeTree(resolve)));
+        return;
+      }
+      const description = { path, key, ...dispatched };
+      const middleware = getMiddleware(middlewareScopes, path);
+      if (!middleware.length) {
+        store.set(storageAtom, describeUpdate(writeTree(resolve), description));
+        return;
+      }
+
+      // Middleware sees the value resolved now, and the value it passes on
+      // is written as is.
+      const prevValue = read(node).value;
+      runMiddleware(
+        middleware,
+        { path, key, prevValue, nextValue: resolve(prevValue), ...dispatched },
+        ({ nextValue }) =>
+          store.set(
+            storageAtom,
+            describeUpdate(
+              writeTree(() => nextValue as T),
+              description,
+            ),
+          ),
+      );
+    },
+    [store, storageAtom, path, key],
+  );
+
+  // Write migrated values back under the new version, or quarantine invalid
+  // values, once mounted.
+  useEffect(() => {
+    setValue(writeBack);
+  }, [setValue]);
+
+  useTrackKeyAccess(path, key);
+  useTrackQuotaKey(path, key, options.essential ?? true);
+  useDetectKeyCollision(path, key);
+  useRegisterKeyUser(path, key, options.debugName);
+  useUrlBinding(options.url, path, key, value, defaultValue, setValue);
+
+  return [value, setValue];
+}
+
+// Mirrors a key bound with the url option to its URL parameter. A parameter
+// present on load overrides the stored value as maintenance, as it restores
+// state rather than changing it. Navigation sets the value from the URL, and
+// changes are written to the URL, removing it for the default.
+function useUrlBinding<T>(
+  binding: UrlBinding<T> | boolean | undefined,
   path: string[],
   key: string,
+  value: T,
   defaultValue: T,
+  setValue: NamespacedSetter<T>,
 ) {
-  const baseAtom = atom(
-    (get) => {
-      let state = get(storageAtom);
-      for (const segment of path) {
-        state = (state[segment] as Record<string, unknown>) || {};
+  const options = binding === true ? {} : binding || null;
+  const param = options && (options.param ?? getUrlParamName(path, key));
+  const location = options?.location ?? "query";
+  const historyMode = options?.history ?? "replace";
+
+  // The serializer and default are read when the URL changes.
+  const latestRef = useRef({ defaultValue, serializer: options?.serializer });
+  useEffect(() => {
+    latestRef.current = { defaultValue, serializer: options?.serializer };
+  });
+  const getSerializer = () =>
+    latestRef.current.serializer ??
+    getDefaultSerializer(latestRef.current.defaultValue);
+
+  // Parameter text the URL is known to hold, so values read from it aren't
+  // written back.
+  const urlTextRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!param) {
+      return;
+    }
+    const readValue = (onLoad: boolean) => {
+      const text = readUrlParam(param, location);
+      urlTextRef.current = text;
+      if (text === null) {
+        if (!onLoad) {
+          setValue(latestRef.current.defaultValue);
+        }
+        return;
+      }
+      try {
+        const parsed = getSerializer().parse(text);
+        setValue(onLoad ? markMaintenanceKeyUpdate(() => parsed) : parsed);
+      } catch {
+        // Invalid parameters leave the value as is.
       }
-      return (state[key] ?? defaultValue) as T;
+    };
+    readValue(true);
+    return subscribeUrl(() => readValue(false));
+  }, [param, location, setValue]);
+
+  const prevValueRef = useRef<{ value: T } | null>(null);
+  useEffect(() => {
+    if (!param) {
+      return;
+    }
+    const prev = prevValueRef.current;
+    prevValueRef.current = { value };
+    // On mount the URL is only written if it had no parameter to load.
+    if (prev ? Object.is(prev.value, value) : urlTextRef.current !== null) {
+      return;
+    }
+    const serializer = getSerializer();
+    const text = serializer.stringify(value);
+    if (text === urlTextRef.current) {
+      return;
+    }
+    const urlText =
+      text === serializer.stringify(latestRef.current.defaultValue)
+        ? null
+        : text;
+    if (urlText !== urlTextRef.current) {
+      urlTextRef.current = urlText;
+      writeUrlParam(param, urlText, location, historyMode);
+    }
+  }, [param, location, historyMode, value]);
+}
+
+// Creates a view of the root atom with the state tree migrated. migrate must
+// return the same tree when there is nothing to migrate. Without writeBackOnMount
+// the migration is only persisted along with the next write.
+function createMigratedAtom(
+  storageAtom: NamespaceRootAtom,
+  migrate: (state: Record<string, unknown>) => Record<string, unknown>,
+  writeBackOnMount = true,
+): NamespaceRootAtom {
+  const migratedAtom: NamespaceRootAtom = atom(
+    (get) => migrate(get(storageAtom)),
+    (get, set, update) => {
+      const prevState = get(storageAtom);
+      if (update === writeBack && migrate(prevState) === prevState) {
+        return;
+      }
+      const updateTree = (state: Record<string, unknown>) => {
+        const migrated = migrate(state);
+        return typeof update === "function" ? update(migrated) : update;
+      };
+      set(
+        storageAtom,
+        update === writeBack || isMaintenanceUpdate(update)
+          ? markMaintenanceUpdate(updateTree)
+          : describeUpdate(updateTree, getUpdateDescription(update)),
+      );
     },
-    (get, set, update: T | ((prev: T) => T)) => {
-      const currentValue = get(baseAtom);
-      const newValue =
-        typeof update === "function"
-          ? (update as (prev: T) => T)(currentValue)
-          : update;
+  );
+
+  // Write the migrated tree back once mounted.
+  if (writeBackOnMount) {
+    migratedAtom.onMount = (setAtom) => setAtom(writeBack);
+  }
 
-      set(storageAtom, (prevState) =>
-        setDeepValue(prevState, path, key, newValue),
+  return migratedAtom;
+}
+
+// Creates a view of a storage atom placing its tree at path, so namespace
+// paths resolve the same way as in the parent's tree.
+function createMountedAtom(
+  storageAtom: NamespaceRootAtom,
+  path: string[],
+): NamespaceRootAtom {
+  const mount = (state: Record<string, unknown>) =>
+    updateDeepNode({}, path, () => state);
+
+  return atom(
+    (get) => mount(get(storageAtom)),
+    (_get, set, update) => {
+      set(storageAtom, (state) =>
+        getNamespaceNode(applyUpdate(mount(state), update), path),
       );
     },
   );
+}
 
-  return baseAtom;
+// compares the own entries of two objects for equality.
+function compareShallowObjects<T extends object>(a: T, b: T) {
+  const aKeys = Object.keys(a) as (keyof T)[];
+  if (aKeys.length !== Object.keys(b).length) return false;
+  return aKeys.every((key) => a[key] === b[key]);
 }
 
 // compares two string arrays for equality.
@@ -143,121 +1246,561 @@ export function useParentStateNamespaceAtom() {
   }, [context.namespaceAtom]);
 }
 
+// Returns the tree holding keys with the given persistence.
+function useKeyStorageAtom(persist: KeyPersistence = "local") {
+  const { keyStorage } = useContext(NamespaceContext);
+  const parentAtom = useParentStateNamespaceAtom();
+  return persist === "local" || !keyStorage ? parentAtom : keyStorage[persist];
+}
+
+// Returns every tree holding state under path: the trees holding keys of the
+// current namespace, and the backends nested providers mount below path.
+function useSubtreeStorage(path: string[]) {
+  const { storage, mountsAtom } = useContext(NamespaceContext);
+  const keyStorageAtoms = useKeyStorageAtoms();
+  const mounts = useAtomValue(mountsAtom ?? noMountsAtom);
+  return useMemo(() => {
+    const nestedMounts = getNestedMounts(mounts, path, storage);
+    return {
+      storageAtoms: [
+        ...keyStorageAtoms,
+        ...nestedMounts.map((mount) => mount.storageAtom),
+      ],
+      nestedMounts,
+    };
+  }, [keyStorageAtoms, mounts, path, storage]);
+}
+
+// Returns every tree holding keys of the current namespace.
+function useKeyStorageAtoms(): NamespaceRootAtom[] {
+  const { keyStorage } = useContext(NamespaceContext);
+  const parentAtom = useParentStateNamespaceAtom();
+  return useMemo(
+    () =>
+      keyStorage
+        ? [parentAtom, keyStorage.session, keyStorage.none]
+        : [parentAtom],
+    [parentAtom, keyStorage],
+  );
+}
+
 export function useStateNamespaceAtom<T>(
   namespace: StateNamespace | null,
   key: string,
   defaultValue: T,
+  options?: NamespacedAtomOptions<T>,
 ): [T, (update: T | ((prev: T) => T)) => void] {
-  const context = useContext(NamespaceContext);
+  return useNamespacedValue(namespace, key, defaultValue, options);
+}
 
-  // this useMemoEqual is necessary to avoid an infinite rerender loop.
+export function useStateNamespaceReducerAtom<State, Action>(
+  namespace: StateNamespace | null,
+  key: string,
+  reducer: (state: State, action: Action) => State,
+  initialState: State,
+  options?: NamespacedAtomOptions<State>,
+): [State, (action: Action) => void] {
+  const [state, setState] = useNamespacedValue(
+    namespace,
+    key,
+    initialState,
+    options,
+  );
+
+  const reducerRef = useRef(reducer);
+  useEffect(() => {
+    reducerRef.current = reducer;
+  });
+  const dispatch = useCallback(
+    (action: Action) =>
+      setState((currentState) => reducerRef.current(currentState, action), {
+        action,
+      }),
+    [setState],
+  );
+
+  return [state, dispatch];
+}
+
+/**
+ * Hook deriving a value from a namespace subtree, including keys kept in
+ * memory or sessionStorage and backends mounted below it. The component only re-renders when the selected
+ * value changes according to equalityFn. Pass a stable selector, defined
+ * outside the component or with useCallback, so it isn't re-run every render.
+ * @param {StateNamespace | null} namespace - Subtree to select from, or null for the current namespace
+ * @param {Function} selector - Derives a value from the subtree
+ * @param {Function} [equalityFn] - Compares selected values, defaults to Object.is
+ * @returns {T} The selected value
+ */
+export function useStateNamespaceSelector<T>(
+  namespace: StateNamespace | null,
+  selector: (subtree: NamespaceSubtree) => T,
+  equalityFn: (a: T, b: T) => boolean = Object.is,
+): T {
+  const context = useContext(NamespaceContext);
   const path = useMemoEqual(
     namespace?.path || context.namespace,
     compareStringArrays,
   );
+  const { storageAtoms } = useSubtreeStorage(path);
 
-  const parentAtom = useParentStateNamespaceAtom();
-
-  const stableAtom = useMemo(
-    () => createNamespacedAtom(parentAtom, path, key, defaultValue),
-    [parentAtom, path, key, defaultValue],
-  );
+  const selectedAtom = useMemo(() => {
+    const subtreeAtom = atom((get) =>
+      getNamespaceSubtree(
+        storageAtoms.map((storageAtom) => get(storageAtom)).reduce(mergeTrees),
+        path,
+      ),
+    );
+    return selectAtom(subtreeAtom, selector, equalityFn);
+  }, [storageAtoms, path, selector, equalityFn]);
 
-  return useAtom(stableAtom);
+  return useAtomValue(selectedAtom);
 }
 
 /**
- * Component for debugging namespace state
- * Displays the current state for the active namespace
+ * Functions resetting namespaced state without reloading the page
  */
-// Helper function to set deeply nested value
-function setDeepValue(
-  obj: Record<string, unknown>,
-  keys: string[],
+export type NamespaceResetControls = {
+  /** Resets a key in the current namespace, or the given one, to its default */
+  resetKey: (key: string, namespace?: StateNamespace | null) => void;
+  /** Clears a child namespace subtree, given relative to the current namespace */
+  clearNamespace: (path: string[]) => void;
+  /** Resets every key and child namespace under the current namespace */
+  resetAll: () => void;
+};
+
+// Removes a key and its version stamp from a namespace node.
+function removeKey(
+  node: Record<string, unknown>,
   key: string,
-  value: unknown,
 ): Record<string, unknown> {
-  if (keys.length === 0) {
-    return { ...obj, [key]: value };
-  }
-  const [first, ...rest] = keys;
-  return {
-    ...obj,
-    [first]: setDeepValue(
-      (obj[first] as Record<string, unknown>) || {},
-      rest,
-      key,
-      value,
-    ),
-  };
+  const next = { ...node };
+  delete next[key];
+  return setKeyVersion(next, key, 0);
 }
 
-function createNamespacedReducerAtom<State, Action>(
-  storageAtom: ReturnType<typeof atomWithStorage<Record<string, unknown>>>,
-  path: string[],
-  key: string,
-  reducer: (state: State, action: Action) => State,
-  initialState: State,
-) {
-  const baseAtom = atom(
-    (get) => {
-      let state = get(storageAtom);
-      for (const segment of path) {
-        state = (state[segment] as Record<string, unknown>) || {};
-      }
-      return (state[key] ?? initialState) as State;
-    },
-    (get, set, action: Action) => {
-      const currentState = get(baseAtom);
-      const newState = reducer(currentState, action);
-
-      set(storageAtom, (prevState) =>
-        setDeepValue(prevState, path, key, newState),
-      );
-    },
-  );
+/**
+ * Hook returning functions that reset state under the current namespace,
+ * including backends mounted below it. Mounted components re-render with their defaults immediately.
+ * @returns {NamespaceResetControls} Reset functions
+ */
+export function useNamespaceReset(): NamespaceResetControls {
+  const { namespace } = useContext(NamespaceContext);
+  const path = useMemoEqual(namespace, compareStringArrays);
+  const { storageAtoms } = useSubtreeStorage(path);
+  const store = useStore();
 
-  return baseAtom;
+  return useMemo(() => {
+    // Keys are reset in every tree, whatever their persistence, and in the
+    // backends mounted below.
+    const setState = (
+      update: (state: Record<string, unknown>) => Record<string, unknown>,
+    ) => {
+      for (const storageAtom of storageAtoms) {
+        store.set(storageAtom, update);
+      }
+    };
+    return {
+      resetKey: (key, keyNamespace) => {
+        const keyPath = keyNamespace?.path ?? path;
+        setState((state) =>
+          key in getNamespaceNode(state, keyPath)
+            ? updateDeepNode(state, keyPath, (node) => removeKey(node, key))
+            : state,
+        );
+      },
+      clearNamespace: (childPath) => {
+        setState((state) => removeDeepNode(state, [...path, ...childPath]));
+      },
+      resetAll: () => {
+        setState((state) => removeDeepNode(state, path));
+      },
+    };
+  }, [path, storageAtoms, store]);
 }
 
-export function useStateNamespaceReducerAtom<State, Action>(
-  namespace: StateNamespace | null,
-  key: string,
-  reducer: (state: State, action: Action) => State,
-  initialState: State,
-): [State, (action: Action) => void] {
+/**
+ * The child namespaces of a namespace and operations on their subtrees
+ */
+export type NamespaceChildrenControls = {
+  /** Segments of the child namespaces holding state */
+  children: string[];
+  /** Creates an empty child namespace */
+  create: (name: string) => void;
+  /** Renames a child namespace, keeping its position among the children */
+  rename: (name: string, newName: string) => void;
+  /** Moves a child namespace under another namespace, optionally renaming it */
+  move: (name: string, target: StateNamespace, newName?: string) => void;
+  /** Copies a child namespace with all of its state to a new child */
+  duplicate: (name: string, newName: string) => void;
+  /** Deletes a child namespace with all of its state */
+  remove: (name: string) => void;
+};
+
+/**
+ * Hook listing the child namespaces of a namespace, with operations that
+ * create, rename, move, duplicate and delete whole child subtrees. Each
+ * operation updates the tree in a single write, including keys kept in memory
+ * or sessionStorage and backends mounted below, and throws if the destination
+ * namespace already exists or state would leave the backend holding it.
+ * @param {StateNamespace | null} [namespace] - The parent namespace, defaults to the current one
+ * @returns {NamespaceChildrenControls} The children and operations on them
+ */
+export function useNamespaceChildren(
+  namespace?: StateNamespace | null,
+): NamespaceChildrenControls {
   const context = useContext(NamespaceContext);
   const path = useMemoEqual(
     namespace?.path || context.namespace,
     compareStringArrays,
   );
-  const parentAtom = useParentStateNamespaceAtom();
+  const { storageAtoms, nestedMounts } = useSubtreeStorage(path);
+  const store = useStore();
 
-  const stableAtom = useMemo(
-    () =>
-      createNamespacedReducerAtom(parentAtom, path, key, reducer, initialState),
-    [parentAtom, path, key, reducer, initialState],
-  );
+  const childrenAtom = useMemo(() => {
+    const segmentsAtom = atom((get) => [
+      ...new Set(
+        storageAtoms.flatMap((storageAtom) =>
+          Object.keys(getChildNodes(get(getNodeAtom(storageAtom, path)))),
+        ),
+      ),
+    ]);
+    return selectAtom(
+      segmentsAtom,
+      (segments) => segments,
+      compareStringArrays,
+    );
+  }, [storageAtoms, path]);
+  const children = useAtomValue(childrenAtom);
 
-  return useAtom(stableAtom);
+  const operations = useMemo(() => {
+    const exists = (childPath: string[]) =>
+      storageAtoms.some((storageAtom) =>
+        hasDeepNode(store.get(storageAtom), childPath),
+      );
+    const assertFree = (childPath: string[]) => {
+      if (exists(childPath)) {
+        throw new Error(`namespace ${formatPath(childPath)} already exists`);
+      }
+    };
+    // Nested backends only hold their own subtree, so state can't be moved
+    // or copied out of it.
+    const assertInMount = (from: string[], to: string[]) => {
+      for (const { storage, storageAtom } of nestedMounts) {
+        if (
+          hasDeepNode(store.get(storageAtom), from) &&
+          !storage.path.every((segment, i) => to[i] === segment)
+        ) {
+          throw new Error(
+            `namespace ${formatPath(from)} is stored in ${storage.name} at ${formatPath(storage.path)}`,
+          );
+        }
+      }
+    };
+    // Subtrees are moved in every tree, whatever the persistence of their keys.
+    const setState = (
+      update: (state: Record<string, unknown>) => Record<string, unknown>,
+    ) => {
+      for (const storageAtom of storageAtoms) {
+        store.set(storageAtom, update);
+      }
+    };
+    const moveChild = (name: string, to: string[]) => {
+      const from = [...path, name];
+      if (compareStringArrays(from, to)) {
+        return;
+      }
+      assertFree(to);
+      assertInMount(from, to);
+      setState((state) => moveDeepNode(state, from, to));
+    };
+
+    return {
+      create: (name: string) => {
+        const childPath = [...path, name];
+        assertFree(childPath);
+        store.set(storageAtoms[0], (state) =>
+          updateDeepNode(state, childPath, (node) => node),
+        );
+      },
+      rename: (name: string, newName: string) =>
+        moveChild(name, [...path, newName]),
+      move: (name: string, target: StateNamespace, newName = name) =>
+        moveChild(name, [...target.path, newName]),
+      duplicate: (name: string, newName: string) => {
+        const from = [...path, name];
+        const to = [...path, newName];
+        assertFree(to);
+        assertInMount(from, to);
+        setState((state) => copyDeepNode(state, from, to));
+      },
+      remove: (name: string) => {
+        setState((state) => removeDeepNode(state, [...path, name]));
+      },
+    };
+  }, [path, storageAtoms, nestedMounts, store]);
+
+  return useMemo(() => ({ children, ...operations }), [children, operations]);
 }
 
-export function StateDebugger() {
+/**
+ * Functions exporting and importing snapshots of namespaced state
+ */
+export type NamespaceSnapshotControls = {
+  /** Takes a snapshot of the current namespace, or of the whole tree with root */
+  exportSnapshot: (options?: { root?: boolean }) => StateSnapshot;
+  /**
+   * Imports a snapshot at the current namespace, or at the root with root.
+   * The current state is replaced by default, or deep merged with "merge".
+   */
+  importSnapshot: (
+    snapshot: StateSnapshot,
+    options?: { mode?: SnapshotImportMode; root?: boolean },
+  ) => void;
+};
+
+/**
+ * Hook returning functions that export the state under the current namespace
+ * as a versioned JSON document and import such documents back, including keys
+ * kept in memory or sessionStorage.
+ * @returns {NamespaceSnapshotControls} Export and import functions
+ */
+export function useNamespaceSnapshot(): NamespaceSnapshotControls {
   const { namespace } = useContext(NamespaceContext);
-  const fullState = useAtomValue(useParentStateNamespaceAtom());
+  const path = useMemoEqual(namespace, compareStringArrays);
+  const [localAtom, sessionAtom, memoryAtom] = useKeyStorageAtoms();
+  const store = useStore();
 
-  // Get the state for the current namespace level
-  const getCurrentState = (
-    state: Record<string, unknown>,
-    path: string[],
-  ): Record<string, unknown> => {
-    let current = state;
-    for (const segment of path) {
-      current = (current[segment] as Record<string, unknown>) || {};
+  return useMemo(() => {
+    const storageAtoms = Object.entries({
+      local: localAtom,
+      session: sessionAtom,
+      none: memoryAtom,
+    }).filter(([, storageAtom]) => storageAtom) as [
+      KeyPersistence,
+      NamespaceRootAtom,
+    ][];
+    return {
+      exportSnapshot: (options) =>
+        createSnapshot(
+          Object.fromEntries(
+            storageAtoms.map(([persist, storageAtom]) => [
+              persist,
+              store.get(storageAtom),
+            ]),
+          ),
+          options?.root ? [] : path,
+        ),
+      importSnapshot: (snapshot, options) => {
+        const mode = options?.mode ?? "replace";
+        const importPath = options?.root ? [] : path;
+        for (const [persist, storageAtom] of storageAtoms) {
+          store.set(storageAtom, (state) =>
+            importSubtree(state, snapshot.trees[persist], importPath, mode),
+          );
+        }
+      },
+    };
+  }, [path, localAtom, sessionAtom, memoryAtom, store]);
+}
+
+/**
+ * Undo/redo controls of a namespace subtree
+ */
+export type NamespaceHistoryControls = {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  clear: () => void;
+};
+
+// Stand-in history for namespaces without one, so hooks run unconditionally.
+const disabledHistory = createNamespaceHistory(atom({}), []);
+
+/**
+ * Hook returning undo/redo controls for the nearest StateNamespaceProvider
+ * with history enabled. Only that provider's subtree is rolled back.
+ * @returns {NamespaceHistoryControls} History controls
+ */
+export function useNamespaceHistory(): NamespaceHistoryControls {
+  const { history } = useContext(NamespaceContext);
+  const { statusAtom, undoAtom, redoAtom, clearAtom } =
+    history ?? disabledHistory;
+  const { canUndo, canRedo } = useAtomValue(statusAtom);
+  const undo = useSetAtom(undoAtom);
+  const redo = useSetAtom(redoAtom);
+  const clear = useSetAtom(clearAtom);
+  if (!history) {
+    throw new Error(
+      "useNamespaceHistory requires a StateNamespaceProvider with history",
+    );
+  }
+  return { undo, redo, canUndo, canRedo, clear };
+}
+
+/**
+ * Hook returning a function that runs a garbage collection of the nearest
+ * StateNamespaceProvider with gc enabled. Pass dryRun to only report what
+ * would be pruned.
+ * @returns {Function} Collects garbage and returns a GarbageReport
+ */
+export function useNamespaceGarbageCollector(): (options?: {
+  dryRun?: boolean;
+}) => GarbageReport {
+  const { gc } = useContext(NamespaceContext);
+  if (!gc) {
+    throw new Error(
+      "useNamespaceGarbageCollector requires a StateNamespaceProvider with gc",
+    );
+  }
+  return gc.collect;
+}
+
+// Stand-in hydration status for roots backed by synchronous storage.
+const alwaysHydratedAtom = atom(true);
+
+/**
+ * Hook reporting whether the current namespace has loaded its persisted state.
+ * Namespaces backed by synchronous storage are always hydrated.
+ * @param {Object} [options] - Hook options
+ * @param {boolean} [options.suspense] - Suspend until hydrated instead of returning false
+ * @returns {boolean} True once the namespace has hydrated
+ */
+export function useNamespaceHydrated(options?: {
+  suspense?: boolean;
+}): boolean {
+  const { hydration } = useContext(NamespaceContext);
+  const statusAtom = !hydration
+    ? alwaysHydratedAtom
+    : options?.suspense
+      ? hydration.hydrationAtom
+      : hydration.hydratedAtom;
+  const status = useAtomValue(statusAtom);
+  return status !== false;
+}
+
+/**
+ * Hook reporting the serialized size of the current namespace's subtree in
+ * the rootAtom, and of each subtree below it, e.g. to show storage usage.
+ * @returns {NamespaceStorageStats} The sizes, before compression or encryption
+ */
+export function useNamespaceStorageStats(): NamespaceStorageStats {
+  const { namespace } = useContext(NamespaceContext);
+  const path = useMemoEqual(namespace, compareStringArrays);
+  const node = useAtomValue(getNodeAtom(useParentStateNamespaceAtom(), path));
+  return useMemo(() => getStorageStats(node, path), [node, path]);
+}
+
+/**
+ * Component for debugging namespace state
+ * Displays the current state for the active namespace, the storage backend
+ * owning it and the backends mounted below it, with controls exporting the
+ * state as a snapshot file and importing one. Development builds show the
+ * state in a StateInspector, production builds as JSON.
+ */
+export function StateDebugger() {
+  const { namespace, storage, mountsAtom, keyStorage } =
+    useContext(NamespaceContext);
+  const persistedState = useAtomValue(useParentStateNamespaceAtom());
+  const sessionState = useAtomValue(keyStorage?.session ?? noKeysAtom);
+  const memoryState = useAtomValue(keyStorage?.none ?? noKeysAtom);
+  // Keys kept in memory or sessionStorage are shown alongside persisted ones.
+  const fullState = mergeTrees(
+    mergeTrees(persistedState, sessionState),
+    memoryState,
+  );
+  const mounts = useAtomValue(mountsAtom ?? noMountsAtom);
+  const nestedMounts = getNestedMounts(mounts, namespace, storage).map(
+    (mount) => mount.storage,
+  );
+
+  const { exportSnapshot, importSnapshot } = useNamespaceSnapshot();
+  const [importMode, setImportMode] = useState<SnapshotImportMode>("replace");
+  const [importError, setImportError] = useState<string | null>(null);
+  const onImport = (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
     }
-    return current;
+    file
+      .text()
+      .then((text) => {
+        importSnapshot(parseSnapshot(JSON.parse(text)), { mode: importMode });
+        setImportError(null);
+      })
+      .catch((err: Error) => setImportError(err.message))
+      .finally(() => {
+        input.value = "";
+      });
   };
 
-  const currentState = getCurrentState(fullState, namespace);
-  return <pre>{JSON.stringify(currentState, null, 2)}</pre>;
+  // Get the state for the current namespace level
+  const currentState = getNamespaceNode(fullState, namespace);
+  return (
+    <div>
+      <small>
+        {storage
+          ? `storage: ${storage.name} at ${formatPath(storage.path)}`
+          : "storage: none"}
+      </small>
+      {import.meta.env.DEV ? (
+        <StateInspector />
+      ) : (
+        <pre>{JSON.stringify(currentState, null, 2)}</pre>
+      )}
+      <div>
+        <button
+          onClick={() =>
+            downloadJson(
+              `state${namespace.map((segment) => `-${segment}`).join("")}.json`,
+              exportSnapshot(),
+            )
+          }
+        >
+          Export
+        </button>
+        <input
+          type="file"
+          accept="application/json"
+          aria-label="Import snapshot"
+          onChange={onImport}
+        />
+        <select
+          aria-label="Import mode"
+          value={importMode}
+          onChange={(e) => setImportMode(e.target.value as SnapshotImportMode)}
+        >
+          <option value="replace">replace</option>
+          <option value="merge">merge</option>
+        </select>
+        {importError && <small role="alert">{importError}</small>}
+      </div>
+      {nestedMounts.length > 0 && (
+        <ul>
+          {nestedMounts.map((mount) => (
+            <li key={formatPath(mount.path)}>
+              {formatPath(mount.path)}: {mount.name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Saves a value as a JSON file through a temporary download link.
+function downloadJson(fileName: string, value: unknown) {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(value, null, 2)], { type: "application/json" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 }
+
+// Stand-in mount list for debuggers outside any provider.
+const noMountsAtom = atom<MountedStorage[]>([]);
@@ -0,0 +1,39 @@
+import { atom } from "jotai";
+
+/**
+ * A mounted component reading or writing a namespaced key, gathered in
+ * development only
+ */
+export type KeyUser = {
+  path: string[];
+  key: string;
+  /**
+   * The debugName option of the key, else the component's name read from
+   * the stack, or "Anonymous" if it can't be read
+   */
+  component: string;
+};
+
+// A stack frame's function name, in V8's "at Name (" and in Firefox and
+// Safari's "Name@" formats.
+const framePattern = /^\s*(?:at\s+)?(?:[\w$]+\.)*([\w$]+)(?:\s+\(|@)/;
+
+/**
+ * Returns the name of the component whose render is on the stack, the first
+ * capitalized function, if any. Minified builds lose the names.
+ */
+export function getRenderingComponentName(): string | undefined {
+  for (const frame of new Error().stack?.split("\n") ?? []) {
+    const name = frame.match(framePattern)?.[1];
+    if (name && /^[A-Z]/.test(name)) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Empty list read where users aren't gathered, outside any provider or in
+ * production builds.
+ */
+export const noKeyUsersAtom = atom<KeyUser[]>([]);
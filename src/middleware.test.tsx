@@ -0,0 +1,159 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { cleanup, render, fireEvent, screen } from "@testing-library/react";
+import { Provider, atom, createStore } from "jotai";
+import {
+  StateNamespaceProvider,
+  useStateNamespaceAtom,
+  useStateNamespaceReducerAtom,
+} from "./jotai-persist";
+import type { NamespaceMiddleware } from "./middleware";
+
+afterEach(cleanup);
+
+function Counter({ id }: { id: string }) {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  return (
+    <button data-testid={id} onClick={() => setCount((c) => c + 1)}>
+      {count}
+    </button>
+  );
+}
+
+function Todos() {
+  const [todos, dispatch] = useStateNamespaceReducerAtom(
+    null,
+    "todos",
+    (state: string[], action: { type: "add"; text: string }) => [
+      ...state,
+      action.text,
+    ],
+    [],
+  );
+  return (
+    <button
+      data-testid="todos"
+      onClick={() => dispatch({ type: "add", text: "write tests" })}
+    >
+      {todos.join(",")}
+    </button>
+  );
+}
+
+const click = (id: string) => fireEvent.click(screen.getByTestId(id));
+const text = (id: string) => screen.getByTestId(id).textContent;
+
+describe("namespace middleware", () => {
+  it("sees writes with their path, key and values", () => {
+    const log = vi.fn();
+    const logger: NamespaceMiddleware = (write, next) => {
+      log(write);
+      next(write);
+    };
+    render(
+      <StateNamespaceProvider rootAtom={atom({})} middleware={[logger]}>
+        <StateNamespaceProvider namespace="main">
+          <Counter id="count" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+
+    click("count");
+    expect(text("count")).toBe("1");
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log).toHaveBeenCalledWith({
+      path: ["main"],
+      key: "count",
+      prevValue: 0,
+      nextValue: 1,
+    });
+  });
+
+  it("passes reducer actions along", () => {
+    const log = vi.fn();
+    render(
+      <StateNamespaceProvider
+        rootAtom={atom({})}
+        middleware={[(write, next) => next(write), (write) => log(write)]}
+      >
+        <Todos />
+      </StateNamespaceProvider>,
+    );
+
+    click("todos");
+    expect(log).toHaveBeenCalledWith({
+      path: [],
+      key: "todos",
+      prevValue: [],
+      nextValue: ["write tests"],
+      action: { type: "add", text: "write tests" },
+    });
+    // The last middleware didn't call next, vetoing the write.
+    expect(text("todos")).toBe("");
+  });
+
+  it("transforms written values", () => {
+    const clamp: NamespaceMiddleware = (write, next) =>
+      next({ ...write, nextValue: Math.min(write.nextValue as number, 2) });
+    render(
+      <StateNamespaceProvider rootAtom={atom({})} middleware={[clamp]}>
+        <Counter id="count" />
+      </StateNamespaceProvider>,
+    );
+
+    click("count");
+    click("count");
+    click("count");
+    expect(text("count")).toBe("2");
+  });
+
+  it("runs side effects once the write is stored", () => {
+    const store = createStore();
+    const rootAtom = atom<Record<string, unknown>>({});
+    const stored: unknown[] = [];
+    const audit: NamespaceMiddleware = (write, next) => {
+      stored.push(store.get(rootAtom).count);
+      next(write);
+      stored.push(store.get(rootAtom).count);
+    };
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} middleware={[audit]}>
+          <Counter id="count" />
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    click("count");
+    expect(stored).toEqual([undefined, 1]);
+  });
+
+  it("composes nested middleware within their subtree", () => {
+    const calls: string[] = [];
+    const tag =
+      (name: string): NamespaceMiddleware =>
+      (write, next) => {
+        calls.push(`${name}:${write.path.join("/")}`);
+        next({ ...write, nextValue: (write.nextValue as number) * 10 });
+        calls.push(`${name} done`);
+      };
+    render(
+      <StateNamespaceProvider rootAtom={atom({})} middleware={[tag("root")]}>
+        <StateNamespaceProvider namespace="main" middleware={[tag("main")]}>
+          <Counter id="main" />
+        </StateNamespaceProvider>
+        <StateNamespaceProvider namespace="sidebar">
+          <Counter id="sidebar" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+
+    click("main");
+    expect(calls).toEqual(["root:main", "main:main", "main done", "root done"]);
+    expect(text("main")).toBe("100");
+
+    calls.length = 0;
+    click("sidebar");
+    expect(calls).toEqual(["root:sidebar", "root done"]);
+    expect(text("sidebar")).toBe("10");
+  });
+});
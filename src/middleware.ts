@@ -0,0 +1,83 @@
+/**
+ * A write to a namespaced key, as seen by middleware
+ */
+export type NamespaceWrite = {
+  /** Namespace path of the key */
+  path: string[];
+  key: string;
+  /** Value before the write */
+  prevValue: unknown;
+  /** Value written, which middleware may replace */
+  nextValue: unknown;
+  /** Action dispatched to a reducer key, if the write came from one */
+  action?: unknown;
+};
+
+/**
+ * Middleware wrapping writes to namespaced keys. Calling next applies the
+ * write, optionally with a different nextValue, and code after it runs once
+ * the write is stored. Not calling next vetoes the write.
+ *
+ * @example
+ * const logger: NamespaceMiddleware = (write, next) => {
+ *   console.log(write.path.join("/"), write.key, write.nextValue);
+ *   next(write);
+ * };
+ */
+export type NamespaceMiddleware = (
+  write: NamespaceWrite,
+  next: (write: NamespaceWrite) => void,
+) => void;
+
+/**
+ * Middleware registered by a provider, applying to writes in its subtree
+ */
+export type NamespaceMiddlewareScope = {
+  path: string[];
+  /** Returns the provider's latest middleware */
+  getMiddleware: () => NamespaceMiddleware[];
+};
+
+/**
+ * Returns the middleware applying to writes at path, outermost first.
+ * @param scopes - Scopes of the enclosing providers, outermost first
+ * @param path - Namespace path of the written key
+ * @returns The middleware
+ */
+export function getMiddleware(
+  scopes: NamespaceMiddlewareScope[],
+  path: string[],
+): NamespaceMiddleware[] {
+  return scopes
+    .filter((scope) => scope.path.every((segment, i) => path[i] === segment))
+    .flatMap((scope) => scope.getMiddleware());
+}
+
+/**
+ * Passes a write through middleware, applying it once the innermost
+ * middleware calls next. Each middleware's next applies at most once.
+ * @param middleware - The middleware, outermost first
+ * @param write - The write
+ * @param apply - Stores the write
+ */
+export function runMiddleware(
+  middleware: NamespaceMiddleware[],
+  write: NamespaceWrite,
+  apply: (write: NamespaceWrite) => void,
+): void {
+  const dispatch = (index: number, write: NamespaceWrite) => {
+    if (index === middleware.length) {
+      apply(write);
+      return;
+    }
+    let called = false;
+    middleware[index](write, (nextWrite) => {
+      if (called) {
+        return;
+      }
+      called = true;
+      dispatch(index + 1, nextWrite);
+    });
+  };
+  dispatch(0, write);
+}
@@ -0,0 +1,340 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { atom, createStore, Provider, type PrimitiveAtom } from "jotai";
+import {
+  StateNamespaceProvider,
+  useStateNamespaceAtom,
+  useStateNamespaceReducerAtom,
+} from "./jotai-persist";
+import { migrateValue } from "./migrations";
+import { InvalidNamespaceValueError } from "./validation";
+
+interface Todo {
+  id: number;
+  text: string;
+  completed: boolean;
+  priority: number;
+}
+
+// v0 stored plain strings, v1 added ids, v2 added priority.
+const todoMigrations = [
+  (value: unknown) =>
+    (value as string[]).map((text, i) => ({
+      id: i + 1,
+      text,
+      completed: false,
+    })),
+  (value: unknown) =>
+    (value as Omit<Todo, "priority">[]).map((todo) => ({
+      ...todo,
+      priority: 0,
+    })),
+];
+const todoOptions = { version: 2, migrations: todoMigrations };
+const initialTodos: Todo[] = [];
+
+function TodoTexts() {
+  const [todos, setTodos] = useStateNamespaceAtom(
+    null,
+    "todos",
+    initialTodos,
+    todoOptions,
+  );
+  return (
+    <button
+      data-testid="todos"
+      onClick={() =>
+        setTodos((prev) => [
+          ...prev,
+          { id: prev.length + 1, text: "new", completed: false, priority: 1 },
+        ])
+      }
+    >
+      {todos.map((t) => `${t.id}:${t.text}:${t.priority}`).join(",")}
+    </button>
+  );
+}
+
+afterEach(cleanup);
+
+describe("migrateValue", () => {
+  it("runs migrations in order from the stored version", () => {
+    const migrations = [(v: unknown) => `${v}a`, (v: unknown) => `${v}b`];
+    expect(migrateValue("x", 0, 2, migrations)).toBe("xab");
+    expect(migrateValue("x", 1, 2, migrations)).toBe("xb");
+    expect(migrateValue("x", 2, 2, migrations)).toBe("x");
+  });
+
+  it("throws when a migration is missing", () => {
+    expect(() => migrateValue("x", 0, 2, [(v) => v])).toThrow(
+      "missing migration from schema version 1 to 2",
+    );
+  });
+});
+
+describe("versioned keys", () => {
+  it("migrates old values on read and writes them back", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: { list: { todos: ["a", "b"] } },
+    });
+    const store = createStore();
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} namespace="list">
+          <TodoTexts />
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    expect(screen.getByTestId("todos").textContent).toBe("1:a:0,2:b:0");
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: {
+        list: {
+          todos: [
+            { id: 1, text: "a", completed: false, priority: 0 },
+            { id: 2, text: "b", completed: false, priority: 0 },
+          ],
+          $versions: { todos: 2 },
+        },
+      },
+    });
+  });
+
+  it("only runs the migrations newer than the stored version", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: {
+        list: {
+          todos: [{ id: 7, text: "c", completed: true }],
+          $versions: { todos: 1 },
+        },
+      },
+    });
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} namespace="list">
+        <TodoTexts />
+      </StateNamespaceProvider>,
+    );
+
+    expect(screen.getByTestId("todos").textContent).toBe("7:c:0");
+  });
+
+  it("stamps the version on new writes", () => {
+    const rootAtom = atom<Record<string, unknown>>({});
+    const store = createStore();
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom}>
+          <TodoTexts />
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    // Nothing is persisted until the value is written.
+    expect(store.get(rootAtom)).toEqual({});
+
+    fireEvent.click(screen.getByTestId("todos"));
+    expect(store.get(rootAtom)).toEqual({
+      todos: [{ id: 1, text: "new", completed: false, priority: 1 }],
+      $versions: { todos: 2 },
+      $layout: 1,
+    });
+  });
+
+  it("leaves values stored by a newer schema untouched", () => {
+    const stored = {
+      $layout: 1,
+      name: { first: "Ada", last: "Lovelace" },
+      $versions: { name: 2 },
+    };
+    const rootAtom = atom<Record<string, unknown>>(stored);
+    const store = createStore();
+    const onError = vi.fn();
+
+    function Name() {
+      const [name, setName] = useStateNamespaceAtom(null, "name", "", {
+        version: 1,
+        migrations: [(v: unknown) => v],
+      });
+      return (
+        <button data-testid="name" onClick={() => setName("Grace")}>
+          {name}
+        </button>
+      );
+    }
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} onError={onError}>
+          <Name />
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    // The newer value reads as the default and is reported, not written back.
+    expect(screen.getByTestId("name").textContent).toBe("");
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message:
+          "invalid persisted value for name: stored at schema version 2, newer than 1",
+      }),
+    );
+    expect(store.get(rootAtom)).toBe(stored);
+
+    // Writes are discarded rather than overwriting it.
+    fireEvent.click(screen.getByTestId("name"));
+    expect(screen.getByTestId("name").textContent).toBe("");
+    expect(store.get(rootAtom)).toEqual(stored);
+  });
+
+  it("migrates reducer state", () => {
+    const rootAtom = atom<Record<string, unknown>>({ total: 5 });
+    const reducer = (state: { value: number }, action: "inc") =>
+      action === "inc" ? { value: state.value + 1 } : state;
+    const options = {
+      version: 1,
+      migrations: [(v: unknown) => ({ value: v as number })],
+    };
+    const initialState = { value: 0 };
+
+    function Total() {
+      const [state, dispatch] = useStateNamespaceReducerAtom(
+        null,
+        "total",
+        reducer,
+        initialState,
+        options,
+      );
+      return (
+        <button data-testid="total" onClick={() => dispatch("inc")}>
+          {state.value}
+        </button>
+      );
+    }
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom}>
+        <Total />
+      </StateNamespaceProvider>,
+    );
+
+    const button = screen.getByTestId("total");
+    expect(button.textContent).toBe("5");
+    fireEvent.click(button);
+    expect(button.textContent).toBe("6");
+  });
+});
+
+describe("versioned namespaces", () => {
+  it("migrates the namespace node before keys are read", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: { settings: { clicks: 3 } },
+    });
+    const store = createStore();
+    const migrations = [
+      (node: unknown) => {
+        const { clicks, ...rest } = node as Record<string, unknown>;
+        return { ...rest, count: clicks };
+      },
+    ];
+
+    function Count() {
+      const [count] = useStateNamespaceAtom(null, "count", 0);
+      return <span data-testid="count">{count}</span>;
+    }
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom}>
+          <StateNamespaceProvider
+            namespace="settings"
+            version={1}
+            migrations={migrations}
+          >
+            <Count />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    expect(screen.getByTestId("count").textContent).toBe("3");
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: { settings: { count: 3, $version: 1 } },
+    });
+  });
+
+  // Written for the old shape, so it throws on nodes without items.
+  const itemMigrations = [
+    (node: unknown) => {
+      const { items, ...rest } = node as { items: string[] };
+      return { ...rest, count: items.map((item) => item.length).length };
+    },
+  ];
+
+  function renderSettings(
+    rootAtom: PrimitiveAtom<Record<string, unknown>>,
+    onError = vi.fn(),
+  ) {
+    function Count() {
+      const [count] = useStateNamespaceAtom(null, "count", 0);
+      return <span data-testid="count">{count}</span>;
+    }
+    const store = createStore();
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} onError={onError}>
+          <StateNamespaceProvider
+            namespace="settings"
+            version={1}
+            migrations={itemMigrations}
+          >
+            <Count />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+    return { store, onError };
+  }
+
+  it("stamps the version on a fresh install without migrating", () => {
+    const rootAtom = atom<Record<string, unknown>>({});
+    const { store, onError } = renderSettings(rootAtom);
+
+    expect(screen.getByTestId("count").textContent).toBe("0");
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: { settings: { $version: 1 } },
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("reports failing migrations and keeps the node as stored", async () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: { settings: { count: 2 } },
+    });
+    const { store, onError } = renderSettings(rootAtom);
+    await act(async () => {});
+
+    expect(screen.getByTestId("count").textContent).toBe("2");
+    expect(store.get(rootAtom)).toHaveProperty("$children.settings", {
+      count: 2,
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(InvalidNamespaceValueError);
+    expect(onError.mock.calls[0][0].path).toEqual(["settings"]);
+  });
+});
@@ -0,0 +1,122 @@
+import { CHILDREN_KEY } from "./namespace-tree.js";
+
+/**
+ * Upgrades a persisted value from one schema version to the next.
+ * migrations[i] receives data stored at version i and returns version i + 1.
+ */
+export type Migration = (value: unknown) => unknown;
+
+/**
+ * Reserved namespace entry holding the schema version of each versioned key.
+ */
+export const KEY_VERSIONS_KEY = "$versions";
+
+/**
+ * Reserved namespace entry holding the schema version of the namespace itself.
+ */
+export const NAMESPACE_VERSION_KEY = "$version";
+
+/**
+ * Runs the migrations needed to bring a value from one version to another.
+ * Values stored at or above the target version are returned unchanged.
+ *
+ * @param value - The persisted value
+ * @param fromVersion - The version the value was stored at
+ * @param toVersion - The version the caller expects
+ * @param migrations - Ordered migration functions
+ * @returns The migrated value
+ */
+export function migrateValue(
+  value: unknown,
+  fromVersion: number,
+  toVersion: number,
+  migrations: readonly Migration[],
+): unknown {
+  let current = value;
+  for (let version = fromVersion; version < toVersion; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(
+        `missing migration from schema version ${version} to ${version + 1}`,
+      );
+    }
+    current = migrate(current);
+  }
+  return current;
+}
+
+/**
+ * Returns the stored schema version of a key in a namespace node.
+ * Values written before versioning was declared are at version 0.
+ */
+export function getKeyVersion(
+  node: Record<string, unknown>,
+  key: string,
+): number {
+  const versions = node[KEY_VERSIONS_KEY] as Record<string, number> | undefined;
+  return versions?.[key] ?? 0;
+}
+
+/**
+ * Returns a copy of the namespace node with the key's schema version stamped.
+ * Version 0 is the implicit default and is not stored.
+ */
+export function setKeyVersion(
+  node: Record<string, unknown>,
+  key: string,
+  version: number,
+): Record<string, unknown> {
+  if (getKeyVersion(node, key) === version) {
+    return node;
+  }
+  const versions = {
+    ...(node[KEY_VERSIONS_KEY] as Record<string, number> | undefined),
+  };
+  if (version) {
+    versions[key] = version;
+  } else {
+    delete versions[key];
+  }
+  const next = { ...node };
+  if (Object.keys(versions).length) {
+    next[KEY_VERSIONS_KEY] = versions;
+  } else {
+    delete next[KEY_VERSIONS_KEY];
+  }
+  return next;
+}
+
+/**
+ * Brings a namespace node up to the declared namespace schema version.
+ * Returns the same node if it is already current. Nodes holding no keys or
+ * child namespaces, as on a fresh install, are stamped without migrating,
+ * since migrations are written for data in an older shape.
+ *
+ * @param node - The persisted namespace node
+ * @param version - The declared namespace version
+ * @param migrations - Ordered migrations applied to the whole node
+ * @returns The migrated node stamped with the new version
+ */
+export function migrateNamespaceNode(
+  node: Record<string, unknown>,
+  version: number,
+  migrations: readonly Migration[],
+): Record<string, unknown> {
+  const storedVersion = (node[NAMESPACE_VERSION_KEY] as number) ?? 0;
+  if (storedVersion >= version) {
+    return node;
+  }
+  const isEmpty = Object.keys(node).every(
+    (name) => name.startsWith("$") && name !== CHILDREN_KEY,
+  );
+  if (isEmpty) {
+    return { ...node, [NAMESPACE_VERSION_KEY]: version };
+  }
+  const migrated = migrateValue(
+    node,
+    storedVersion,
+    version,
+    migrations,
+  ) as Record<string, unknown>;
+  return { ...migrated, [NAMESPACE_VERSION_KEY]: version };
+}
@@ -0,0 +1,504 @@
+import type { SetStateAction } from "jotai";
+import { KEY_VERSIONS_KEY } from "./migrations.js";
+
+/**
+ * Reserved node entry holding child namespace nodes, keeping them apart from
+ * the node's own key values.
+ */
+export const CHILDREN_KEY = "$children";
+
+/**
+ * Reserved root entry stamping the layout of the state tree.
+ * Trees without it store child namespaces next to key values.
+ */
+export const LAYOUT_VERSION_KEY = "$layout";
+
+const LAYOUT_VERSION = 1;
+
+/**
+ * Reserved node entry listing the object values the layout migration moved
+ * under CHILDREN_KEY. They may have been object-valued keys rather than
+ * namespaces, so hooks reading them as keys move them back.
+ */
+export const MIGRATED_CHILDREN_KEY = "$migratedChildren";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Returns the child namespace nodes of a node.
+ */
+export function getChildNodes(
+  node: Record<string, unknown>,
+): Record<string, Record<string, unknown>> {
+  return (node[CHILDREN_KEY] as Record<string, Record<string, unknown>>) || {};
+}
+
+/**
+ * Replaces the child namespace nodes of a node, dropping the entry if empty.
+ */
+export function setChildNodes(
+  node: Record<string, unknown>,
+  children: Record<string, Record<string, unknown>>,
+): Record<string, unknown> {
+  const next: Record<string, unknown> = { ...node, [CHILDREN_KEY]: children };
+  if (!Object.keys(children).length) {
+    delete next[CHILDREN_KEY];
+  }
+  return next;
+}
+
+/**
+ * Returns the namespace node at the given path, or an empty node.
+ * @param state - The state tree
+ * @param path - Namespace path segments
+ * @returns The namespace node
+ */
+export function getNamespaceNode(
+  state: Record<string, unknown>,
+  path: string[],
+): Record<string, unknown> {
+  let node = state;
+  for (const segment of path) {
+    node = getChildNodes(node)[segment] || {};
+  }
+  return node;
+}
+
+/**
+ * Replaces a deeply nested namespace node, copying each node along the path.
+ * @param obj - The state tree
+ * @param keys - Namespace path segments
+ * @param update - Returns the new node given the current one
+ * @returns The updated state tree
+ */
+export function updateDeepNode(
+  obj: Record<string, unknown>,
+  keys: string[],
+  update: (node: Record<string, unknown>) => Record<string, unknown>,
+): Record<string, unknown> {
+  if (keys.length === 0) {
+    return update(obj);
+  }
+  const [first, ...rest] = keys;
+  const children = getChildNodes(obj);
+  return {
+    ...obj,
+    [CHILDREN_KEY]: {
+      ...children,
+      [first]: updateDeepNode(children[first] || {}, rest, update),
+    },
+  };
+}
+
+/**
+ * Applies a value or updater function to a state tree.
+ */
+export function applyUpdate(
+  state: Record<string, unknown>,
+  update: SetStateAction<Record<string, unknown>>,
+): Record<string, unknown> {
+  return typeof update === "function" ? update(state) : update;
+}
+
+// Updates that rewrite stored data without changing what it means.
+const maintenanceUpdates = new WeakSet<object>();
+
+/**
+ * Marks an update as maintenance, such as writing a migrated value back, so
+ * features like undo history don't treat it as a user change.
+ */
+export function markMaintenanceUpdate<
+  U extends SetStateAction<Record<string, unknown>>,
+>(update: U): U {
+  if (typeof update === "function") {
+    maintenanceUpdates.add(update);
+  }
+  return update;
+}
+
+/**
+ * Returns true if the update was marked with markMaintenanceUpdate.
+ */
+export function isMaintenanceUpdate(
+  update: SetStateAction<Record<string, unknown>>,
+): boolean {
+  return typeof update === "function" && maintenanceUpdates.has(update);
+}
+
+/**
+ * What a write to a namespaced key did, for logging it
+ */
+export type UpdateDescription = {
+  path: string[];
+  key: string;
+  /** The action dispatched to the key's reducer, if written by one */
+  action?: unknown;
+};
+
+// Descriptions of the updates written by namespaced keys.
+const updateDescriptions = new WeakMap<object, UpdateDescription>();
+
+/**
+ * Attaches a description of the write to an update, so features like
+ * devtools can log it. Views wrapping updates pass the description on.
+ */
+export function describeUpdate<
+  U extends SetStateAction<Record<string, unknown>>,
+>(update: U, description: UpdateDescription | undefined): U {
+  if (typeof update === "function" && description) {
+    updateDescriptions.set(update, description);
+  }
+  return update;
+}
+
+/**
+ * Returns the description attached with describeUpdate, if any.
+ */
+export function getUpdateDescription(
+  update: SetStateAction<Record<string, unknown>>,
+): UpdateDescription | undefined {
+  return typeof update === "function"
+    ? updateDescriptions.get(update)
+    : undefined;
+}
+
+/**
+ * Removes the namespace node at path, including all of its keys and children.
+ * Removing the root path empties the whole tree.
+ * @param obj - The state tree
+ * @param keys - Namespace path segments
+ * @returns The updated state tree
+ */
+export function removeDeepNode(
+  obj: Record<string, unknown>,
+  keys: string[],
+): Record<string, unknown> {
+  if (keys.length === 0) {
+    return {};
+  }
+  const parentPath = keys.slice(0, -1);
+  const segment = keys[keys.length - 1];
+  if (!(segment in getChildNodes(getNamespaceNode(obj, parentPath)))) {
+    return obj;
+  }
+  return updateDeepNode(obj, parentPath, (node) => {
+    const children = { ...getChildNodes(node) };
+    delete children[segment];
+    return setChildNodes(node, children);
+  });
+}
+
+/**
+ * Returns true if a namespace node exists at path. The root always exists.
+ */
+export function hasDeepNode(
+  obj: Record<string, unknown>,
+  keys: string[],
+): boolean {
+  return (
+    !keys.length ||
+    keys[keys.length - 1] in
+      getChildNodes(getNamespaceNode(obj, keys.slice(0, -1)))
+  );
+}
+
+/**
+ * Copies the namespace node at from, with all of its keys and children, to
+ * path to, replacing any node there.
+ * @param obj - The state tree
+ * @param from - Path of the node to copy
+ * @param to - Path of the copy
+ * @returns The updated state tree
+ */
+export function copyDeepNode(
+  obj: Record<string, unknown>,
+  from: string[],
+  to: string[],
+): Record<string, unknown> {
+  if (!hasDeepNode(obj, from)) {
+    return obj;
+  }
+  const node = getNamespaceNode(obj, from);
+  return updateDeepNode(obj, to, () => node);
+}
+
+/**
+ * Moves the namespace node at from, with all of its keys and children, to
+ * path to, replacing any node there. A node renamed within its parent keeps
+ * its position among the siblings.
+ * @param obj - The state tree
+ * @param from - Path of the node to move
+ * @param to - Its new path
+ * @returns The updated state tree
+ */
+export function moveDeepNode(
+  obj: Record<string, unknown>,
+  from: string[],
+  to: string[],
+): Record<string, unknown> {
+  if (!from.length || !to.length) {
+    throw new Error("The root namespace cannot be moved");
+  }
+  if (to.length > from.length && from.every((s, i) => to[i] === s)) {
+    throw new Error("A namespace cannot be moved into itself");
+  }
+  if (!hasDeepNode(obj, from)) {
+    return obj;
+  }
+  const parentPath = from.slice(0, -1);
+  const segment = from[from.length - 1];
+  const newSegment = to[to.length - 1];
+  const sameParent =
+    parentPath.length === to.length - 1 &&
+    parentPath.every((s, i) => to[i] === s);
+  if (!sameParent) {
+    const node = getNamespaceNode(obj, from);
+    return updateDeepNode(removeDeepNode(obj, from), to, () => node);
+  }
+  return updateDeepNode(obj, parentPath, (node) => {
+    const children: Record<string, Record<string, unknown>> = {};
+    for (const [name, child] of Object.entries(getChildNodes(node))) {
+      if (name === segment) {
+        children[newSegment] = child;
+      } else if (name !== newSegment) {
+        children[name] = child;
+      }
+    }
+    return setChildNodes(node, children);
+  });
+}
+
+/**
+ * Migrates a tree that stores child namespaces next to key values into the
+ * layout keeping them under CHILDREN_KEY, and stamps the layout version.
+ * In such trees every plain object entry that isn't a versioned key is taken
+ * to be a child namespace, as a key and a namespace could not share a name.
+ * The names are listed under MIGRATED_CHILDREN_KEY, so entries that were
+ * object-valued keys can be restored with restoreMigratedChild.
+ *
+ * @param state - The state tree
+ * @returns The migrated tree, or the same tree if already migrated
+ */
+export function migrateTreeLayout(
+  state: Record<string, unknown>,
+): Record<string, unknown> {
+  if (state[LAYOUT_VERSION_KEY] === LAYOUT_VERSION) {
+    return state;
+  }
+  const migrateNode = (
+    node: Record<string, unknown>,
+  ): Record<string, unknown> => {
+    const versions = node[KEY_VERSIONS_KEY] as
+      Record<string, number> | undefined;
+    const next: Record<string, unknown> = {};
+    const children: Record<string, Record<string, unknown>> = {};
+    const moved: string[] = [];
+    for (const [name, value] of Object.entries(node)) {
+      if (name === CHILDREN_KEY) {
+        continue;
+      }
+      if (
+        isPlainObject(value) &&
+        !name.startsWith("$") &&
+        versions?.[name] === undefined
+      ) {
+        children[name] = migrateNode(value);
+        moved.push(name);
+      } else {
+        next[name] = value;
+      }
+    }
+    for (const [name, child] of Object.entries(getChildNodes(node))) {
+      children[name] = migrateNode(child);
+    }
+    if (moved.length) {
+      next[MIGRATED_CHILDREN_KEY] = moved;
+    }
+    return setChildNodes(next, children);
+  };
+  return { ...migrateNode(state), [LAYOUT_VERSION_KEY]: LAYOUT_VERSION };
+}
+
+// Values restored per migrated child node, so reads return the same object
+// while the node is unchanged.
+const restoredValues = new WeakMap<object, Record<string, unknown>>();
+
+// Reverts the layout migration of a node that was an object value, dropping
+// metadata such as access stamps written into it since.
+function restoreValue(node: Record<string, unknown>): Record<string, unknown> {
+  let value = restoredValues.get(node);
+  if (!value) {
+    value = Object.fromEntries(
+      Object.entries(node).filter(([name]) => !name.startsWith("$")),
+    );
+    for (const [name, child] of Object.entries(getChildNodes(node))) {
+      value[name] = restoreValue(child);
+    }
+    restoredValues.set(node, value);
+  }
+  return value;
+}
+
+/**
+ * Returns true if a key has no value in the node, but the layout migration
+ * moved an object stored under its name to the node's children.
+ */
+export function isMigratedChild(
+  node: Record<string, unknown>,
+  key: string,
+): boolean {
+  const moved = node[MIGRATED_CHILDREN_KEY] as string[] | undefined;
+  return (
+    node[key] === undefined &&
+    !!moved?.includes(key) &&
+    key in getChildNodes(node)
+  );
+}
+
+/**
+ * Returns the value of a key, including an object value the layout
+ * migration moved to the node's children, restored as it was stored.
+ */
+export function getKeyValue(
+  node: Record<string, unknown>,
+  key: string,
+): unknown {
+  return isMigratedChild(node, key)
+    ? restoreValue(getChildNodes(node)[key])
+    : node[key];
+}
+
+/**
+ * Drops the namespaces along a path from the MIGRATED_CHILDREN_KEY lists,
+ * as writing a key under them shows they are namespaces rather than values.
+ *
+ * @param state - The state tree
+ * @param path - Namespace path of the written key
+ * @returns The updated tree, or the same tree if nothing was listed
+ */
+export function confirmNamespaces(
+  state: Record<string, unknown>,
+  path: string[],
+): Record<string, unknown> {
+  const [name, ...rest] = path;
+  const children = getChildNodes(state);
+  const child = children[name];
+  if (!child) {
+    return state;
+  }
+  const nextChild = confirmNamespaces(child, rest);
+  const moved = state[MIGRATED_CHILDREN_KEY] as string[] | undefined;
+  if (nextChild === child && !moved?.includes(name)) {
+    return state;
+  }
+  const next = setChildNodes(state, { ...children, [name]: nextChild });
+  const left = moved?.filter((movedName) => movedName !== name) ?? [];
+  if (left.length) {
+    next[MIGRATED_CHILDREN_KEY] = left;
+  } else {
+    delete next[MIGRATED_CHILDREN_KEY];
+  }
+  return next;
+}
+
+/**
+ * Moves an object value the layout migration took for a child namespace back
+ * to the key, or returns the node as is.
+ */
+export function restoreMigratedChild(
+  node: Record<string, unknown>,
+  key: string,
+): Record<string, unknown> {
+  if (!isMigratedChild(node, key)) {
+    return node;
+  }
+  const children = { ...getChildNodes(node) };
+  const value = restoreValue(children[key]);
+  delete children[key];
+  const moved = (node[MIGRATED_CHILDREN_KEY] as string[]).filter(
+    (name) => name !== key,
+  );
+  const next = setChildNodes({ ...node, [key]: value }, children);
+  if (moved.length) {
+    next[MIGRATED_CHILDREN_KEY] = moved;
+  } else {
+    delete next[MIGRATED_CHILDREN_KEY];
+  }
+  return next;
+}
+
+/**
+ * Deeply merges two state trees. Plain objects present in both are merged,
+ * any other value in the second tree replaces the one in the first.
+ * @param base - The tree merged into
+ * @param overlay - The tree whose values win
+ * @returns The merged tree, or base if overlay is empty
+ */
+export function mergeTrees(
+  base: Record<string, unknown>,
+  overlay: Record<string, unknown>,
+): Record<string, unknown> {
+  const entries = Object.entries(overlay);
+  if (!entries.length) {
+    return base;
+  }
+  const merged = { ...base };
+  for (const [name, value] of entries) {
+    const baseValue = merged[name];
+    merged[name] =
+      isPlainObject(baseValue) && isPlainObject(value)
+        ? mergeTrees(baseValue, value)
+        : value;
+  }
+  return merged;
+}
+
+/**
+ * A namespace subtree with key values separated from child namespaces and
+ * reserved metadata left out
+ */
+export type NamespaceSubtree = {
+  values: Record<string, unknown>;
+  children: Record<string, NamespaceSubtree>;
+};
+
+// Subtrees built per node, reused while the node is unchanged.
+const subtreeCache = new WeakMap<object, NamespaceSubtree>();
+
+function toSubtree(node: Record<string, unknown>): NamespaceSubtree {
+  let subtree = subtreeCache.get(node);
+  if (!subtree) {
+    const values: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(node)) {
+      if (!name.startsWith("$")) {
+        values[name] = value;
+      }
+    }
+    const children: Record<string, NamespaceSubtree> = {};
+    for (const [name, child] of Object.entries(getChildNodes(node))) {
+      children[name] = toSubtree(child);
+    }
+    subtree = { values, children };
+    subtreeCache.set(node, subtree);
+  }
+  return subtree;
+}
+
+/**
+ * Returns the subtree at path in a form meant for selectors.
+ * @param state - The state tree
+ * @param path - Namespace path segments
+ * @returns The namespace subtree
+ */
+export function getNamespaceSubtree(
+  state: Record<string, unknown>,
+  path: string[],
+): NamespaceSubtree {
+  return toSubtree(getNamespaceNode(state, path));
+}
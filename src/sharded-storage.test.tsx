@@ -0,0 +1,209 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { cleanup, render, fireEvent, screen } from "@testing-library/react";
+import { StateNamespaceProvider, useStateNamespaceAtom } from "./jotai-persist";
+import {
+  atomWithShardedStorage,
+  joinShards,
+  splitShards,
+  type ShardStorage,
+} from "./sharded-storage";
+import { COMPRESSED_PREFIX, decompressText } from "./compression";
+
+afterEach(cleanup);
+
+// In-memory ShardStorage that records writes.
+function createMemoryShardStorage(initial: Record<string, string> = {}) {
+  const items = new Map(Object.entries(initial));
+  const storage: ShardStorage = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: vi.fn((key: string, value: string) => {
+      items.set(key, value);
+    }),
+    removeItem: vi.fn((key: string) => {
+      items.delete(key);
+    }),
+    keys: () => [...items.keys()],
+  };
+  return { storage, items };
+}
+
+function Counter({ testId }: { testId: string }) {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  return (
+    <button data-testid={testId} onClick={() => setCount((c) => c + 1)}>
+      {count}
+    </button>
+  );
+}
+
+describe("splitShards", () => {
+  const state = {
+    title: "root",
+    $children: {
+      main: { count: 1, $children: { nested: { count: 2 } } },
+      other: { count: 3 },
+    },
+  };
+
+  it("splits top-level namespaces into their own shards", () => {
+    expect(Object.fromEntries(splitShards("s", state, 1))).toEqual({
+      "s/": { title: "root" },
+      "s/main": { count: 1, $children: { nested: { count: 2 } } },
+      "s/other": { count: 3 },
+    });
+  });
+
+  it("splits deeper subtrees at the configured depth", () => {
+    expect(Object.fromEntries(splitShards("s", state, 2))).toEqual({
+      "s/": { title: "root" },
+      "s/main": { count: 1 },
+      "s/main/nested": { count: 2 },
+      "s/other": { count: 3 },
+    });
+  });
+
+  it("round-trips through joinShards", () => {
+    const shards = [...splitShards("s", state, 2)].map(
+      ([key, shard]) =>
+        [key.slice(2) ? key.slice(2).split("/") : [], shard] as [
+          string[],
+          Record<string, unknown>,
+        ],
+    );
+    expect(joinShards(shards)).toEqual(state);
+  });
+});
+
+describe("atomWithShardedStorage", () => {
+  it("only writes the shard of the namespace that changed", () => {
+    const { storage, items } = createMemoryShardStorage({
+      "app/": JSON.stringify({ $layout: 1 }),
+      "app/left": JSON.stringify({ count: 1 }),
+      "app/right": JSON.stringify({ count: 5 }),
+    });
+    const rootAtom = atomWithShardedStorage("app", { storage });
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom}>
+        <StateNamespaceProvider namespace="left">
+          <Counter testId="left" />
+        </StateNamespaceProvider>
+        <StateNamespaceProvider namespace="right">
+          <Counter testId="right" />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+
+    expect(screen.getByTestId("left").textContent).toBe("1");
+    expect(screen.getByTestId("right").textContent).toBe("5");
+
+    fireEvent.click(screen.getByTestId("left"));
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem).toHaveBeenCalledWith(
+      "app/left",
+      JSON.stringify({ count: 2 }),
+    );
+    expect(items.get("app/right")).toBe(JSON.stringify({ count: 5 }));
+  });
+
+  it("migrates a legacy single-blob entry into shards", () => {
+    // The blob predates sharding and stores namespaces next to keys.
+    const { storage, items } = createMemoryShardStorage({
+      app: JSON.stringify({ main: { count: 4 }, count: 1 }),
+    });
+    const rootAtom = atomWithShardedStorage("app", { storage });
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+        <Counter testId="main" />
+      </StateNamespaceProvider>,
+    );
+
+    expect(screen.getByTestId("main").textContent).toBe("4");
+    expect(Object.fromEntries(items)).toEqual({
+      "app/": JSON.stringify({
+        count: 1,
+        $migratedChildren: ["main"],
+        $layout: 1,
+      }),
+      "app/main": JSON.stringify({ count: 4 }),
+    });
+  });
+
+  it("skips and reports shards that can't be parsed", () => {
+    const { storage, items } = createMemoryShardStorage({
+      "app/": JSON.stringify({ $layout: 1 }),
+      "app/main": "{ count: 4",
+      "app/other": JSON.stringify({ count: 3 }),
+    });
+    const onError = vi.fn();
+    const rootAtom = atomWithShardedStorage("app", { storage, onError });
+
+    render(
+      <>
+        <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+          <Counter testId="main" />
+        </StateNamespaceProvider>
+        <StateNamespaceProvider rootAtom={rootAtom} namespace="other">
+          <Counter testId="other" />
+        </StateNamespaceProvider>
+      </>,
+    );
+    expect(screen.getByTestId("main").textContent).toBe("0");
+    expect(screen.getByTestId("other").textContent).toBe("3");
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(SyntaxError));
+
+    // Writing the namespace replaces the corrupt shard.
+    fireEvent.click(screen.getByTestId("main"));
+    expect(items.get("app/main")).toBe(JSON.stringify({ count: 1 }));
+  });
+
+  it("compresses shards when asked, reading uncompressed ones", () => {
+    const { storage, items } = createMemoryShardStorage({
+      "app/": JSON.stringify({ $layout: 1 }),
+      "app/main": JSON.stringify({ count: 4, title: "a".repeat(200) }),
+    });
+    const rootAtom = atomWithShardedStorage("app", { storage, compress: true });
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+        <Counter testId="main" />
+      </StateNamespaceProvider>,
+    );
+    expect(screen.getByTestId("main").textContent).toBe("4");
+
+    fireEvent.click(screen.getByTestId("main"));
+    const stored = items.get("app/main")!;
+    expect(stored.startsWith(COMPRESSED_PREFIX)).toBe(true);
+    expect(stored.length).toBeLessThan(100);
+    expect(JSON.parse(decompressText(stored))).toEqual({
+      count: 5,
+      title: "a".repeat(200),
+    });
+  });
+
+  it("encodes namespace segments in shard keys", () => {
+    const { storage, items } = createMemoryShardStorage();
+    const rootAtom = atomWithShardedStorage("app", { storage });
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} namespace="a/b">
+        <Counter testId="encoded" />
+      </StateNamespaceProvider>,
+    );
+    fireEvent.click(screen.getByTestId("encoded"));
+
+    expect(items.get("app/a%2Fb")).toBe(JSON.stringify({ count: 1 }));
+
+    // A fresh atom reads the shard back under the original segment.
+    cleanup();
+    const reloadedAtom = atomWithShardedStorage("app", { storage });
+    render(
+      <StateNamespaceProvider rootAtom={reloadedAtom} namespace="a/b">
+        <Counter testId="encoded" />
+      </StateNamespaceProvider>,
+    );
+    expect(screen.getByTestId("encoded").textContent).toBe("1");
+  });
+});
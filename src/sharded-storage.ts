@@ -0,0 +1,308 @@
+import { atom } from "jotai";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import {
+  CHILDREN_KEY,
+  getChildNodes,
+  migrateTreeLayout,
+  setChildNodes,
+} from "./namespace-tree.js";
+import { compressText, decompressText } from "./compression.js";
+
+/**
+ * Synchronous string storage that can list its keys
+ */
+export interface ShardStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+/**
+ * Adapts a Web Storage object (localStorage by default) to ShardStorage.
+ * @param {Storage} [storage] - The storage to wrap
+ * @returns {ShardStorage} The shard storage adapter
+ */
+export function createWebShardStorage(
+  storage: Storage = localStorage,
+): ShardStorage {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+    keys: () => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key != null) keys.push(key);
+      }
+      return keys;
+    },
+  };
+}
+
+/**
+ * Wraps a ShardStorage so values are stored compressed. Values stored
+ * uncompressed are still read, and compressed on their next write.
+ * @param {ShardStorage} storage - The storage to wrap
+ * @returns {ShardStorage} The compressing storage
+ */
+export function createCompressedShardStorage(
+  storage: ShardStorage,
+): ShardStorage {
+  return {
+    getItem: (key) => {
+      const value = storage.getItem(key);
+      return value == null ? value : decompressText(value);
+    },
+    setItem: (key, value) => storage.setItem(key, compressText(value)),
+    removeItem: (key) => storage.removeItem(key),
+    keys: () => storage.keys(),
+  };
+}
+
+/**
+ * Options for atomWithShardedStorage
+ */
+export type ShardedStorageOptions = {
+  /** Namespace depth at which subtrees get their own entry, defaults to 1 */
+  depth?: number;
+  /** Storage holding the shards, defaults to localStorage */
+  storage?: ShardStorage;
+  /** Single-blob entry migrated into shards on first load, defaults to the prefix */
+  legacyKey?: string | null;
+  /** Compress each shard before storing it, defaults to false */
+  compress?: boolean;
+  /** Reports unreadable entries, which are skipped, defaults to console.error */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * Returns the storage key of the shard at the given namespace path.
+ * The root shard is stored under `${prefix}/`.
+ */
+export function getShardKey(prefix: string, path: string[]): string {
+  return `${prefix}/${path.map(encodeURIComponent).join("/")}`;
+}
+
+// Returns the namespace path of a shard key, or null if it is not a shard.
+function parseShardKey(prefix: string, key: string): string[] | null {
+  if (!key.startsWith(`${prefix}/`)) {
+    return null;
+  }
+  const rest = key.slice(prefix.length + 1);
+  return rest ? rest.split("/").map(decodeURIComponent) : [];
+}
+
+/**
+ * Splits a state tree into shards keyed by storage key.
+ * Nodes above the shard depth store their own entries without children, while
+ * nodes at the shard depth store their whole subtree.
+ *
+ * @param prefix - Storage key prefix
+ * @param state - The state tree
+ * @param depth - Namespace depth of the subtree shards
+ * @returns Map of storage key to shard contents
+ */
+export function splitShards(
+  prefix: string,
+  state: Record<string, unknown>,
+  depth: number,
+): Map<string, Record<string, unknown>> {
+  const shards = new Map<string, Record<string, unknown>>();
+  const visit = (node: Record<string, unknown>, path: string[]) => {
+    if (path.length >= depth) {
+      shards.set(getShardKey(prefix, path), node);
+      return;
+    }
+    for (const [segment, child] of Object.entries(getChildNodes(node))) {
+      visit(child, [...path, segment]);
+    }
+    const own = { ...node };
+    delete own[CHILDREN_KEY];
+    shards.set(getShardKey(prefix, path), own);
+  };
+  visit(state, []);
+  return shards;
+}
+
+/**
+ * Rebuilds a state tree from shards produced by splitShards.
+ * @param shards - Pairs of namespace path and shard contents
+ * @returns The state tree
+ */
+export function joinShards(
+  shards: Iterable<[string[], Record<string, unknown>]>,
+): Record<string, unknown> {
+  // Insert shallow shards first so deeper shards land in their parents.
+  const sorted = [...shards].sort(([a], [b]) => a.length - b.length);
+  let state: Record<string, unknown> = {};
+  for (const [path, shard] of sorted) {
+    state = mergeShard(state, path, shard);
+  }
+  return state;
+}
+
+function mergeShard(
+  node: Record<string, unknown>,
+  path: string[],
+  shard: Record<string, unknown>,
+): Record<string, unknown> {
+  if (!path.length) {
+    return { ...node, ...shard };
+  }
+  const [first, ...rest] = path;
+  const children = getChildNodes(node);
+  return setChildNodes(node, {
+    ...children,
+    [first]: mergeShard(children[first] || {}, rest, shard),
+  });
+}
+
+// Compares shard contents by entry identity.
+function isSameShard(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+): boolean {
+  if (a === b) return true;
+  const aKeys = Object.keys(a);
+  if (aKeys.length !== Object.keys(b).length) return false;
+  return aKeys.every((key) => key in b && a[key] === b[key]);
+}
+
+// Reads and parses an entry, reporting it and returning null if it's corrupt.
+function readEntry(
+  storage: ShardStorage,
+  key: string,
+  onError: (error: unknown) => void,
+): Record<string, unknown> | null {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    onError(error);
+    return null;
+  }
+}
+
+/**
+ * Loads a sharded state tree, migrating a legacy single-blob entry if no
+ * shards exist yet. Entries that can't be parsed are reported and skipped,
+ * and stay in storage until their namespace is written.
+ */
+export function loadShardedState(
+  storage: ShardStorage,
+  prefix: string,
+  depth: number,
+  legacyKey: string | null,
+  onError: (error: unknown) => void = console.error,
+): Record<string, unknown> {
+  const shards: [string[], Record<string, unknown>][] = [];
+  for (const key of storage.keys()) {
+    const path = parseShardKey(prefix, key);
+    const shard = path && readEntry(storage, key, onError);
+    if (path && shard) {
+      shards.push([path, shard]);
+    }
+  }
+  if (shards.length || legacyKey == null) {
+    return joinShards(shards);
+  }
+
+  const legacy = readEntry(storage, legacyKey, onError);
+  if (!legacy) {
+    return {};
+  }
+  const state = migrateTreeLayout(legacy);
+  writeShards(storage, prefix, depth, {}, state);
+  storage.removeItem(legacyKey);
+  return state;
+}
+
+/**
+ * Writes only the shards that differ between two state trees. Removed
+ * shards are deleted first, freeing their space for the writes.
+ */
+export function writeShards(
+  storage: ShardStorage,
+  prefix: string,
+  depth: number,
+  prevState: Record<string, unknown>,
+  nextState: Record<string, unknown>,
+): void {
+  const prevShards = splitShards(prefix, prevState, depth);
+  const nextShards = splitShards(prefix, nextState, depth);
+  for (const key of prevShards.keys()) {
+    if (!nextShards.has(key)) {
+      storage.removeItem(key);
+    }
+  }
+  for (const [key, shard] of nextShards) {
+    const prevShard = prevShards.get(key);
+    if (!prevShard || !isSameShard(prevShard, shard)) {
+      storage.setItem(key, JSON.stringify(shard));
+    }
+  }
+}
+
+/**
+ * Creates a root atom that stores each namespace subtree under its own
+ * storage entry, so a write only re-serializes the shard it touched.
+ *
+ * @param {string} prefix - Storage key prefix, e.g. "app-state"
+ * @param {ShardedStorageOptions} [options] - Shard depth, storage, legacy key, compression and error handling
+ * @returns {NamespaceRootAtom} The sharded root atom
+ */
+export function atomWithShardedStorage(
+  prefix: string,
+  options: ShardedStorageOptions = {},
+): NamespaceRootAtom {
+  const {
+    depth = 1,
+    legacyKey = prefix,
+    compress = false,
+    onError = console.error,
+  } = options;
+  const baseStorage = options.storage ?? createWebShardStorage();
+  const storage = compress
+    ? createCompressedShardStorage(baseStorage)
+    : baseStorage;
+
+  // Shards are loaded lazily on first read so creating the atom is cheap.
+  let initialState: Record<string, unknown> | undefined;
+  // The last tree written in full. Writes are diffed against it, so shards
+  // left unwritten by a failed write, e.g. over quota, are written next time.
+  let persistedState: Record<string, unknown> | undefined;
+  const stateAtom = atom<Record<string, unknown> | undefined>(undefined);
+
+  const rootAtom: NamespaceRootAtom = atom(
+    (get) => {
+      const state = get(stateAtom);
+      if (state) {
+        return state;
+      }
+      initialState ??= loadShardedState(
+        storage,
+        prefix,
+        depth,
+        legacyKey,
+        onError,
+      );
+      return initialState;
+    },
+    (get, set, update) => {
+      const prevState = get(rootAtom);
+      const nextState =
+        typeof update === "function" ? update(prevState) : update;
+      if (nextState === prevState) {
+        return;
+      }
+      persistedState ??= prevState;
+      set(stateAtom, nextState);
+      writeShards(storage, prefix, depth, persistedState, nextState);
+      persistedState = nextState;
+    },
+  );
+
+  return rootAtom;
+}
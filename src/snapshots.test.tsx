@@ -0,0 +1,192 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import {
+  StateDebugger,
+  StateNamespaceProvider,
+  useNamespaceSnapshot,
+  useStateNamespaceAtom,
+  type NamespaceSnapshotControls,
+} from "./jotai-persist";
+import {
+  createSnapshot,
+  InvalidSnapshotError,
+  parseSnapshot,
+  SNAPSHOT_FORMAT,
+} from "./snapshots";
+
+afterEach(() => {
+  cleanup();
+  sessionStorage.clear();
+});
+
+function Counters({ testId }: { testId: string }) {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  const [draft] = useStateNamespaceAtom(null, "draft", "", {
+    persist: "session",
+  });
+  return (
+    <button data-testid={testId} onClick={() => setCount((c) => c + 1)}>
+      {count}:{draft}
+    </button>
+  );
+}
+
+function renderTree(initialState: Record<string, unknown>) {
+  const rootAtom = atom(initialState);
+  const store = createStore();
+  const controls = {} as Record<string, NamespaceSnapshotControls>;
+  function Snapshots({ name }: { name: string }) {
+    controls[name] = useNamespaceSnapshot();
+    return null;
+  }
+  render(
+    <Provider store={store}>
+      <StateNamespaceProvider rootAtom={rootAtom} sessionStorageKey="snapshots">
+        <Snapshots name="root" />
+        <StateNamespaceProvider namespace="source">
+          <Snapshots name="source" />
+          <Counters testId="source" />
+        </StateNamespaceProvider>
+        <StateNamespaceProvider namespace="target">
+          <Snapshots name="target" />
+          <Counters testId="target" />
+          <StateNamespaceProvider namespace="child">
+            <Counters testId="target-child" />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    </Provider>,
+  );
+  return { controls, rootAtom, store };
+}
+
+describe("snapshot documents", () => {
+  it("round-trip through JSON with their metadata", () => {
+    const state = {
+      $layout: 1,
+      $children: { main: { count: 1, $children: { nested: { count: 2 } } } },
+    };
+    const snapshot = createSnapshot({ local: state }, ["main"], 0);
+
+    expect(snapshot).toEqual({
+      format: SNAPSHOT_FORMAT,
+      version: 1,
+      path: ["main"],
+      exportedAt: "1970-01-01T00:00:00.000Z",
+      trees: { local: { count: 1, $children: { nested: { count: 2 } } } },
+    });
+    expect(parseSnapshot(JSON.parse(JSON.stringify(snapshot)))).toEqual(
+      snapshot,
+    );
+    // The layout stamp is left out of whole tree snapshots.
+    expect(createSnapshot({ local: state }, []).trees.local).not.toHaveProperty(
+      "$layout",
+    );
+  });
+
+  it("rejects documents that are not supported snapshots", () => {
+    const snapshot = createSnapshot({ local: { count: 1 } }, []);
+    expect(() => parseSnapshot({ count: 1 })).toThrow(InvalidSnapshotError);
+    expect(() => parseSnapshot({ ...snapshot, version: 2 })).toThrow(
+      "invalid state snapshot: unsupported version 2",
+    );
+    expect(() => parseSnapshot({ ...snapshot, trees: { local: 1 } })).toThrow(
+      InvalidSnapshotError,
+    );
+  });
+});
+
+describe("useNamespaceSnapshot", () => {
+  const initialState = {
+    source: { count: 3 },
+    target: { count: 1, other: true, child: { count: 5 } },
+  };
+
+  it("exports a subtree and replaces another with it", () => {
+    sessionStorage.setItem(
+      "snapshots",
+      JSON.stringify({ $children: { source: { draft: "hi" } } }),
+    );
+    const { controls } = renderTree(initialState);
+
+    const snapshot = controls.source.exportSnapshot();
+    expect(snapshot.trees).toEqual({
+      local: { count: 3 },
+      session: { draft: "hi" },
+    });
+
+    act(() => controls.target.importSnapshot(snapshot));
+    expect(screen.getByTestId("target").textContent).toBe("3:hi");
+    expect(screen.getByTestId("target-child").textContent).toBe("0:");
+  });
+
+  it("deep merges a snapshot over the current state", () => {
+    const { controls, rootAtom, store } = renderTree(initialState);
+    const snapshot = createSnapshot(
+      { local: { $children: { child: { count: 7 } } } },
+      [],
+    );
+
+    act(() => controls.target.importSnapshot(snapshot, { mode: "merge" }));
+    expect(screen.getByTestId("target").textContent).toBe("1:");
+    expect(screen.getByTestId("target-child").textContent).toBe("7:");
+    expect(store.get(rootAtom)).toMatchObject({
+      $layout: 1,
+      $children: { target: { other: true } },
+    });
+  });
+
+  it("exports and imports the whole tree with root", () => {
+    const { controls, rootAtom, store } = renderTree(initialState);
+    const snapshot = controls.source.exportSnapshot({ root: true });
+    expect(snapshot.path).toEqual([]);
+
+    fireEvent.click(screen.getByTestId("source"));
+    fireEvent.click(screen.getByTestId("target"));
+    act(() => controls.source.importSnapshot(snapshot, { root: true }));
+    expect(screen.getByTestId("source").textContent).toBe("3:");
+    expect(screen.getByTestId("target").textContent).toBe("1:");
+    expect(store.get(rootAtom).$layout).toBe(1);
+  });
+});
+
+describe("StateDebugger snapshots", () => {
+  function renderDebugger() {
+    render(
+      <StateNamespaceProvider rootAtom={atom({})} namespace="main">
+        <Counters testId="main" />
+        <StateDebugger />
+      </StateNamespaceProvider>,
+    );
+  }
+
+  const chooseFile = (content: string) =>
+    fireEvent.change(screen.getByLabelText("Import snapshot"), {
+      target: { files: [new File([content], "state.json")] },
+    });
+
+  it("imports a snapshot file", async () => {
+    renderDebugger();
+    chooseFile(JSON.stringify(createSnapshot({ local: { count: 4 } }, [])));
+    await waitFor(() =>
+      expect(screen.getByTestId("main").textContent).toBe("4:"),
+    );
+  });
+
+  it("shows why a file could not be imported", async () => {
+    renderDebugger();
+    chooseFile(JSON.stringify({ count: 4 }));
+    expect((await screen.findByRole("alert")).textContent).toBe(
+      "invalid state snapshot: not a snapshot document",
+    );
+    expect(screen.getByTestId("main").textContent).toBe("0:");
+  });
+});
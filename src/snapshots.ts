@@ -0,0 +1,137 @@
+import type { KeyPersistence } from "./jotai-persist.js";
+import {
+  getNamespaceNode,
+  LAYOUT_VERSION_KEY,
+  mergeTrees,
+  updateDeepNode,
+} from "./namespace-tree.js";
+
+/**
+ * Format tag identifying snapshot documents
+ */
+export const SNAPSHOT_FORMAT = "jotai-tree-state/snapshot";
+
+/**
+ * Schema version of snapshot documents written by createSnapshot
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * A JSON document holding a namespace subtree, for sharing or restoring state
+ */
+export type StateSnapshot = {
+  format: typeof SNAPSHOT_FORMAT;
+  /** Schema version of the document */
+  version: number;
+  /** Namespace path the subtree was exported from */
+  path: string[];
+  /** When the snapshot was taken, as an ISO 8601 timestamp */
+  exportedAt: string;
+  /** The subtree of each storage holding keys, by key persistence */
+  trees: Partial<Record<KeyPersistence, Record<string, unknown>>>;
+};
+
+/**
+ * How an imported subtree is combined with the current one
+ * - replace: the imported subtree replaces the current one
+ * - merge: the imported subtree is deep merged over the current one
+ */
+export type SnapshotImportMode = "replace" | "merge";
+
+/**
+ * Error thrown when a document is not a snapshot that can be imported
+ */
+export class InvalidSnapshotError extends Error {
+  constructor(message: string) {
+    super(`invalid state snapshot: ${message}`);
+    this.name = "InvalidSnapshotError";
+  }
+}
+
+function isTree(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Takes a snapshot of the subtree at path in each storage tree. Empty
+ * subtrees are left out.
+ *
+ * @param trees - The state tree of each storage, by key persistence
+ * @param path - Namespace path of the subtree, [] for the whole tree
+ * @param now - Time of the snapshot, defaults to the current time
+ * @returns The snapshot document
+ */
+export function createSnapshot(
+  trees: Partial<Record<KeyPersistence, Record<string, unknown>>>,
+  path: string[],
+  now = Date.now(),
+): StateSnapshot {
+  const subtrees: StateSnapshot["trees"] = {};
+  for (const [persist, state] of Object.entries(trees)) {
+    // The layout stamp belongs to the storage, not to the exported state.
+    const node = { ...getNamespaceNode(state, path) };
+    delete node[LAYOUT_VERSION_KEY];
+    if (Object.keys(node).length) {
+      subtrees[persist as KeyPersistence] = node;
+    }
+  }
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    path,
+    exportedAt: new Date(now).toISOString(),
+    trees: subtrees,
+  };
+}
+
+/**
+ * Checks that a parsed JSON document is a snapshot this version can import.
+ *
+ * @param document - The parsed document
+ * @returns The snapshot
+ * @throws {InvalidSnapshotError} If the document is not a supported snapshot
+ */
+export function parseSnapshot(document: unknown): StateSnapshot {
+  if (!isTree(document) || document.format !== SNAPSHOT_FORMAT) {
+    throw new InvalidSnapshotError("not a snapshot document");
+  }
+  const { version, path, trees } = document;
+  if (typeof version !== "number" || version > SNAPSHOT_VERSION) {
+    throw new InvalidSnapshotError(`unsupported version ${String(version)}`);
+  }
+  if (!Array.isArray(path) || !path.every((s) => typeof s === "string")) {
+    throw new InvalidSnapshotError("path must be a list of segments");
+  }
+  if (!isTree(trees) || !Object.values(trees).every(isTree)) {
+    throw new InvalidSnapshotError("trees must be objects");
+  }
+  return document as StateSnapshot;
+}
+
+/**
+ * Imports a snapshot subtree at path into a state tree.
+ *
+ * @param state - The state tree
+ * @param subtree - The subtree taken from a snapshot, absent if it had none
+ * @param path - Namespace path to import at
+ * @param mode - Whether to replace or deep merge the current subtree
+ * @returns The updated state tree
+ */
+export function importSubtree(
+  state: Record<string, unknown>,
+  subtree: Record<string, unknown> | undefined,
+  path: string[],
+  mode: SnapshotImportMode,
+): Record<string, unknown> {
+  if (mode === "merge" && !subtree) {
+    return state;
+  }
+  return updateDeepNode(state, path, (node) => {
+    const next =
+      mode === "merge" ? mergeTrees(node, subtree ?? {}) : { ...subtree };
+    // Keep the storage's layout stamp when importing at the root.
+    return LAYOUT_VERSION_KEY in node
+      ? { ...next, [LAYOUT_VERSION_KEY]: node[LAYOUT_VERSION_KEY] }
+      : next;
+  });
+}
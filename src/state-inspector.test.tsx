@@ -0,0 +1,142 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { atom } from "jotai";
+import { StateNamespaceProvider, useStateNamespaceAtom } from "./jotai-persist";
+import { StateInspector } from "./state-inspector";
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+function Counter({ testId }: { testId: string }) {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0, {
+    debugName: "Counter",
+  });
+  return (
+    <button data-testid={testId} onClick={() => setCount((c) => c + 1)}>
+      {count}
+    </button>
+  );
+}
+
+function Title() {
+  const [title] = useStateNamespaceAtom(null, "title", "hello", {
+    debugName: "Title",
+  });
+  return <span data-testid="title">{title}</span>;
+}
+
+function renderInspector() {
+  const rootAtom = atom<Record<string, unknown>>({
+    main: { count: 1, title: "hello", nested: { count: 2 } },
+  });
+  render(
+    <StateNamespaceProvider rootAtom={rootAtom}>
+      <StateNamespaceProvider namespace="main">
+        <Counter testId="main" />
+        <Title />
+        <StateNamespaceProvider namespace="nested">
+          <Counter testId="nested" />
+          <div data-testid="inspector">
+            <StateInspector />
+          </div>
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    </StateNamespaceProvider>,
+  );
+}
+
+const editButton = (label: string) => screen.getByLabelText(`Edit ${label}`);
+
+function edit(label: string, text: string) {
+  fireEvent.click(editButton(label));
+  const input = screen.getByLabelText(`Value of ${label}`);
+  fireEvent.change(input, { target: { value: text } });
+  fireEvent.keyDown(input, { key: "Enter" });
+  return input;
+}
+
+describe("StateInspector", () => {
+  it("shows keys with the components using them", () => {
+    renderInspector();
+    expect(editButton("main/nested:count").textContent).toBe("2");
+    expect(editButton("main/nested:count").parentElement!.textContent).toBe(
+      "count: 2 used by Counter",
+    );
+  });
+
+  it("names components without a debugName after their function", () => {
+    function Subtitle() {
+      const [subtitle] = useStateNamespaceAtom(null, "subtitle", "");
+      return <span>{subtitle}</span>;
+    }
+    render(
+      <StateNamespaceProvider
+        rootAtom={atom<Record<string, unknown>>({ subtitle: "hi" })}
+      >
+        <Subtitle />
+        <StateInspector />
+      </StateNamespaceProvider>,
+    );
+    expect(editButton("subtitle").parentElement!.textContent).toContain(
+      "used by Subtitle",
+    );
+  });
+
+  it("jumps to the parent namespace and back into a child", () => {
+    renderInspector();
+    expect(screen.queryByLabelText("Edit main:title")).toBeNull();
+
+    fireEvent.click(screen.getByText("parent"));
+    expect(editButton("main:title").textContent).toBe("hello");
+    expect(editButton("main:title").parentElement!.textContent).toContain(
+      "used by Title",
+    );
+
+    fireEvent.click(screen.getAllByText("focus")[1]);
+    expect(screen.queryByLabelText("Edit main:title")).toBeNull();
+    expect(editButton("main/nested:count").textContent).toBe("2");
+  });
+
+  it("edits values inline", () => {
+    renderInspector();
+    fireEvent.click(screen.getByText("parent"));
+
+    edit("main:count", "5");
+    expect(screen.getByTestId("main").textContent).toBe("5");
+
+    // Strings are edited without quotes.
+    edit("main:title", "bye");
+    expect(screen.getByTestId("title").textContent).toBe("bye");
+  });
+
+  it("keeps invalid JSON from being written", () => {
+    renderInspector();
+    const input = edit("main/nested:count", "{oops");
+    expect(input.getAttribute("aria-invalid")).toBe("true");
+    expect(screen.getByTestId("nested").textContent).toBe("2");
+
+    fireEvent.keyDown(input, { key: "Escape" });
+    expect(editButton("main/nested:count").textContent).toBe("2");
+  });
+
+  it("highlights recently changed keys", () => {
+    vi.useFakeTimers();
+    renderInspector();
+    const row = () => editButton("main/nested:count").parentElement!;
+    expect(row().dataset.changed).toBeUndefined();
+
+    fireEvent.click(screen.getByTestId("nested"));
+    expect(row().dataset.changed).toBe("true");
+
+    act(() => vi.advanceTimersByTime(2000));
+    expect(row().dataset.changed).toBeUndefined();
+  });
+});
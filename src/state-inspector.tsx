@@ -0,0 +1,250 @@
+import { useAtomValue, useStore } from "jotai";
+import {
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from "react";
+import {
+  NamespaceContext,
+  useParentStateNamespaceAtom,
+  type NamespaceRootAtom,
+} from "./jotai-persist.js";
+import { formatKeyLabel, formatPath, noKeysAtom } from "./atom-cache.js";
+import { diffTrees } from "./cross-tab-sync.js";
+import { noKeyUsersAtom, type KeyUser } from "./key-users.js";
+import {
+  getChildNodes,
+  getNamespaceNode,
+  mergeTrees,
+  updateDeepNode,
+} from "./namespace-tree.js";
+
+// How long changed keys stay highlighted, in milliseconds.
+const HIGHLIGHT_DURATION = 1500;
+
+const highlightStyle = { background: "rgba(250, 204, 21, 0.3)" };
+const listStyle = { listStyle: "none", margin: 0, paddingLeft: 16 };
+
+// Ids of keys and of the namespaces containing them.
+const keyId = (path: string[], key: string) => JSON.stringify([...path, key]);
+const namespaceId = (path: string[]) => JSON.stringify(path);
+
+// Returns the ids of keys changed within the last HIGHLIGHT_DURATION, and of
+// the namespaces containing them.
+function useRecentChanges(state: Record<string, unknown>): Set<string> {
+  const prevState = useRef(state);
+  const [changed, setChanged] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    const patches = diffTrees(prevState.current, state);
+    prevState.current = state;
+    if (!patches.length) {
+      return;
+    }
+    const ids = new Set<string>();
+    for (const { path, key } of patches) {
+      ids.add(keyId(path, key));
+      for (let i = 0; i <= path.length; i++) {
+        ids.add(namespaceId(path.slice(0, i)));
+      }
+    }
+    setChanged((current) => new Set([...current, ...ids]));
+    const timeout = setTimeout(() => {
+      setChanged((current) => {
+        const next = new Set(current);
+        ids.forEach((id) => next.delete(id));
+        return next;
+      });
+    }, HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [state]);
+
+  return changed;
+}
+
+type InspectorState = {
+  /** The merged trees, as the hooks read them */
+  state: Record<string, unknown>;
+  /** Trees keys may be written to, in the order they are looked up */
+  storageAtoms: NamespaceRootAtom[];
+  changed: Set<string>;
+  users: KeyUser[];
+  onFocus: (path: string[]) => void;
+};
+
+function formatValue(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function KeyRow({
+  path,
+  name,
+  value,
+  inspector,
+}: {
+  path: string[];
+  name: string;
+  value: unknown;
+  inspector: InspectorState;
+}) {
+  const store = useStore();
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+  const label = formatKeyLabel(path, name);
+  const users = inspector.users.filter(
+    (user) => user.key === name && namespaceId(user.path) === namespaceId(path),
+  );
+
+  // Strings are edited as is, other values as JSON.
+  const save = (text: string) => {
+    let nextValue: unknown = text;
+    if (typeof value !== "string") {
+      try {
+        nextValue = JSON.parse(text);
+      } catch {
+        setInvalid(true);
+        return;
+      }
+    }
+    // Write to the tree already holding the key, falling back to the rootAtom.
+    const storageAtom =
+      inspector.storageAtoms.find(
+        (candidate) => name in getNamespaceNode(store.get(candidate), path),
+      ) ?? inspector.storageAtoms[0];
+    store.set(storageAtom, (state) =>
+      updateDeepNode(state, path, (node) => ({ ...node, [name]: nextValue })),
+    );
+    setDraft(null);
+    setInvalid(false);
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      save(event.currentTarget.value);
+    } else if (event.key === "Escape") {
+      setDraft(null);
+      setInvalid(false);
+    }
+  };
+
+  const changed = inspector.changed.has(keyId(path, name));
+  return (
+    <li
+      data-changed={changed || undefined}
+      style={changed ? highlightStyle : undefined}
+    >
+      {name}:{" "}
+      {draft === null ? (
+        <button
+          aria-label={`Edit ${label}`}
+          onClick={() => setDraft(formatValue(value))}
+        >
+          {formatValue(value)}
+        </button>
+      ) : (
+        <input
+          aria-label={`Value of ${label}`}
+          aria-invalid={invalid}
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={onKeyDown}
+          onBlur={() => setDraft(null)}
+        />
+      )}
+      {users.length > 0 && (
+        <small> used by {users.map((user) => user.component).join(", ")}</small>
+      )}
+    </li>
+  );
+}
+
+function NamespaceView({
+  path,
+  inspector,
+}: {
+  path: string[];
+  inspector: InspectorState;
+}) {
+  const node = getNamespaceNode(inspector.state, path);
+  // Reserved entries hold metadata, not keys.
+  const keys = Object.keys(node).filter((name) => !name.startsWith("$"));
+  const children = Object.keys(getChildNodes(node));
+  const changed = inspector.changed.has(namespaceId(path));
+
+  return (
+    <details open>
+      <summary style={changed ? highlightStyle : undefined}>
+        {formatPath(path)}{" "}
+        {path.length > 0 && (
+          <button onClick={() => inspector.onFocus(path)}>focus</button>
+        )}
+      </summary>
+      <ul style={listStyle}>
+        {keys.map((name) => (
+          <KeyRow
+            key={name}
+            path={path}
+            name={name}
+            value={node[name]}
+            inspector={inspector}
+          />
+        ))}
+        {children.map((segment) => (
+          <li key={segment}>
+            <NamespaceView path={[...path, segment]} inspector={inspector} />
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+/**
+ * Interactive inspector of the state under the current namespace, including
+ * keys kept in memory or sessionStorage. Namespaces collapse, values are
+ * edited inline, recently changed keys are highlighted and each key lists the
+ * mounted components using it. Components are named by their debugName
+ * option, else by their function name, so pass debugName where builds are
+ * minified. StateDebugger renders it in development, so production builds
+ * leave it out unless it is rendered directly.
+ */
+export function StateInspector() {
+  const { namespace, keyStorage, keyUsersAtom } = useContext(NamespaceContext);
+  const localAtom = useParentStateNamespaceAtom();
+  const localState = useAtomValue(localAtom);
+  const sessionState = useAtomValue(keyStorage?.session ?? noKeysAtom);
+  const memoryState = useAtomValue(keyStorage?.none ?? noKeysAtom);
+  const users = useAtomValue(keyUsersAtom ?? noKeyUsersAtom);
+  const state = useMemo(
+    () => mergeTrees(mergeTrees(localState, sessionState), memoryState),
+    [localState, sessionState, memoryState],
+  );
+  const changed = useRecentChanges(state);
+  const [focusedPath, setFocusedPath] = useState<string[] | null>(null);
+  const path = focusedPath ?? namespace;
+
+  const inspector: InspectorState = {
+    state,
+    storageAtoms: keyStorage
+      ? [localAtom, keyStorage.session, keyStorage.none]
+      : [localAtom],
+    changed,
+    users,
+    onFocus: setFocusedPath,
+  };
+
+  return (
+    <div>
+      {path.length > 0 && (
+        <button onClick={() => setFocusedPath(path.slice(0, -1))}>
+          parent
+        </button>
+      )}
+      <NamespaceView path={path} inspector={inspector} />
+    </div>
+  );
+}
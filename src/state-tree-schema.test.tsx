@@ -0,0 +1,140 @@
+import { afterEach, describe, it, expect, expectTypeOf } from "vitest";
+import { cleanup, render, fireEvent, screen } from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import {
+  defineKey,
+  defineNamespace,
+  defineReducer,
+  defineStateTree,
+  type StateTreePath,
+} from "./state-tree-schema";
+import { getNamespaceNode } from "./namespace-tree";
+
+afterEach(cleanup);
+
+type Todo = { id: number; text: string };
+type TodoAction = { type: "add"; text: string } | { type: "clear" };
+
+const todoReducer = (todos: Todo[], action: TodoAction): Todo[] =>
+  action.type === "add"
+    ? [...todos, { id: todos.length + 1, text: action.text }]
+    : [];
+
+const tree = defineStateTree({
+  theme: "light",
+  todos: defineReducer(todoReducer, [] as Todo[]),
+  editor: defineNamespace({
+    draft: defineKey<string | null>(null),
+    settings: defineNamespace({ fontSize: 14, wrap: true }),
+  }),
+});
+
+describe("defineStateTree", () => {
+  it("infers paths, keys and value types", () => {
+    expectTypeOf<StateTreePath<typeof tree.entries>>().toEqualTypeOf<
+      "" | "editor" | "editor/settings"
+    >();
+
+    // Hooks are only type-checked here, never called.
+    const typeCheck = () => {
+      expectTypeOf(tree.useKey("", "theme")[0]).toEqualTypeOf<string>();
+      expectTypeOf(tree.useKey("editor", "draft")[0]).toEqualTypeOf<
+        string | null
+      >();
+      expectTypeOf(
+        tree.useKey("editor/settings", "fontSize")[0],
+      ).toEqualTypeOf<number>();
+      expectTypeOf(tree.useReducer("", "todos")).toEqualTypeOf<
+        [Todo[], (action: TodoAction) => void]
+      >();
+
+      const [, setFontSize] = tree.useKey("editor/settings", "fontSize");
+      setFontSize((size) => size + 1);
+      // @ts-expect-error values must match the declared type
+      setFontSize("large");
+      // @ts-expect-error unknown keys are rejected
+      tree.useKey("editor", "drafts");
+      // @ts-expect-error keys are checked against their namespace
+      tree.useKey("editor", "fontSize");
+      // @ts-expect-error unknown paths are rejected
+      tree.useKey("editor/setting", "fontSize");
+      // @ts-expect-error reducer keys are read with useReducer
+      tree.useKey("", "todos");
+      // @ts-expect-error plain keys have no reducer
+      tree.useReducer("", "theme");
+      const [, dispatch] = tree.useReducer("", "todos");
+      // @ts-expect-error actions must match the reducer
+      dispatch({ type: "remove" });
+    };
+    expect(typeCheck).toBeTypeOf("function");
+  });
+
+  it("reads and writes the declared keys", () => {
+    function Editor() {
+      const [fontSize, setFontSize] = tree.useKey(
+        "editor/settings",
+        "fontSize",
+      );
+      const [todos, dispatch] = tree.useReducer("", "todos");
+      return (
+        <>
+          <button
+            data-testid="font-size"
+            onClick={() => setFontSize((size) => size + 2)}
+          >
+            {fontSize}
+          </button>
+          <button
+            data-testid="todos"
+            onClick={() => dispatch({ type: "add", text: "write tests" })}
+          >
+            {todos.map((todo) => todo.text).join(",")}
+          </button>
+        </>
+      );
+    }
+
+    const rootAtom = atom<Record<string, unknown>>({});
+    const store = createStore();
+    render(
+      <Provider store={store}>
+        <tree.Provider rootAtom={rootAtom}>
+          <tree.NamespaceProvider
+            path="editor/settings"
+            version={1}
+            migrations={[(node) => node]}
+          >
+            <Editor />
+          </tree.NamespaceProvider>
+        </tree.Provider>
+      </Provider>,
+    );
+    expect(screen.getByTestId("font-size").textContent).toBe("14");
+
+    fireEvent.click(screen.getByTestId("font-size"));
+    fireEvent.click(screen.getByTestId("todos"));
+    expect(screen.getByTestId("todos").textContent).toBe("write tests");
+    const state = store.get(rootAtom);
+    expect(getNamespaceNode(state, ["editor", "settings"])).toMatchObject({
+      fontSize: 16,
+      $version: 1,
+    });
+    expect(getNamespaceNode(state, []).todos).toEqual([
+      { id: 1, text: "write tests" },
+    ]);
+  });
+
+  it("rejects namespace providers outside their parent", () => {
+    expect(() =>
+      render(
+        <tree.Provider rootAtom={atom({})}>
+          <tree.NamespaceProvider path="editor">
+            <tree.NamespaceProvider path="">
+              <span />
+            </tree.NamespaceProvider>
+          </tree.NamespaceProvider>
+        </tree.Provider>,
+      ),
+    ).toThrow("namespace / is not inside /editor");
+  });
+});
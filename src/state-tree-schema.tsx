@@ -0,0 +1,326 @@
+import { useContext, type ComponentProps, type ReactNode } from "react";
+import {
+  NamespaceContext,
+  StateNamespaceProvider,
+  useStateNamespaceAtom,
+  useStateNamespaceReducerAtom,
+  type NamespacedAtomOptions,
+} from "./jotai-persist.js";
+
+const schemaKind = Symbol("schema kind");
+
+/**
+ * A key declared with defineKey, for defaults that need an explicit type or
+ * keys with options
+ */
+export type KeySchema<T> = {
+  [schemaKind]: "key";
+  defaultValue: T;
+  options?: NamespacedAtomOptions<T>;
+};
+
+/**
+ * A key updated by dispatching actions to a reducer
+ */
+export type ReducerSchema<State, Action> = {
+  [schemaKind]: "reducer";
+  reducer: (state: State, action: Action) => State;
+  initialState: State;
+  options?: NamespacedAtomOptions<State>;
+};
+
+/**
+ * A child namespace and the entries declared in it
+ */
+export type NamespaceSchema<Entries extends NamespaceEntries> = {
+  [schemaKind]: "namespace";
+  entries: Entries;
+};
+
+/**
+ * Entries of a namespace. Values not declared with defineKey, defineReducer
+ * or defineNamespace are the defaults of plain keys.
+ */
+export type NamespaceEntries = { [name: string]: unknown };
+
+/**
+ * Declares a key with a default value and options.
+ */
+export function defineKey<T>(
+  defaultValue: T,
+  options?: NamespacedAtomOptions<T>,
+): KeySchema<T> {
+  return { [schemaKind]: "key", defaultValue, options };
+}
+
+/**
+ * Declares a key updated through a reducer.
+ */
+export function defineReducer<State, Action>(
+  reducer: (state: State, action: Action) => State,
+  initialState: State,
+  options?: NamespacedAtomOptions<State>,
+): ReducerSchema<State, Action> {
+  return { [schemaKind]: "reducer", reducer, initialState, options };
+}
+
+/**
+ * Declares a child namespace.
+ */
+export function defineNamespace<Entries extends NamespaceEntries>(
+  entries: Entries,
+): NamespaceSchema<Entries> {
+  return { [schemaKind]: "namespace", entries };
+}
+
+type JoinPath<Prefix extends string, Name extends string> = Prefix extends ""
+  ? Name
+  : `${Prefix}/${Name}`;
+
+type ChildPaths<Entries, Prefix extends string> = {
+  [Name in keyof Entries & string]: Entries[Name] extends NamespaceSchema<
+    infer Child
+  >
+    ? JoinPath<Prefix, Name> | ChildPaths<Child, JoinPath<Prefix, Name>>
+    : never;
+}[keyof Entries & string];
+
+/**
+ * Namespace paths declared in a tree, with segments joined by "/" and ""
+ * for the root
+ */
+export type StateTreePath<Entries> = "" | ChildPaths<Entries, "">;
+
+/**
+ * Entries of the namespace at a path
+ */
+export type EntriesAt<Entries, Path extends string> = Path extends ""
+  ? Entries
+  : Path extends `${infer Name}/${infer Rest}`
+    ? Name extends keyof Entries
+      ? Entries[Name] extends NamespaceSchema<infer Child>
+        ? EntriesAt<Child, Rest>
+        : never
+      : never
+    : Path extends keyof Entries
+      ? Entries[Path] extends NamespaceSchema<infer Child>
+        ? Child
+        : never
+      : never;
+
+/**
+ * Names of the plain keys of a namespace's entries
+ */
+export type ValueKeys<Entries> = {
+  [Name in keyof Entries & string]: Entries[Name] extends {
+    [schemaKind]: "namespace" | "reducer";
+  }
+    ? never
+    : Name;
+}[keyof Entries & string];
+
+/**
+ * Names of the reducer keys of a namespace's entries
+ */
+export type ReducerKeys<Entries> = {
+  [Name in keyof Entries & string]: Entries[Name] extends {
+    [schemaKind]: "reducer";
+  }
+    ? Name
+    : never;
+}[keyof Entries & string];
+
+/**
+ * Value type of a plain key entry
+ */
+export type ValueOf<Entry> = Entry extends KeySchema<infer T> ? T : Entry;
+
+/**
+ * State and dispatch of a reducer key entry, as returned by useReducer
+ */
+export type ReducerHookResult<Entry> =
+  Entry extends ReducerSchema<infer State, infer Action>
+    ? [State, (action: Action) => void]
+    : never;
+
+type ProviderProps = Omit<
+  ComponentProps<typeof StateNamespaceProvider>,
+  "namespace"
+>;
+
+/**
+ * Typed hooks and providers of a tree declared with defineStateTree
+ */
+export type StateTree<Entries extends NamespaceEntries> = {
+  entries: Entries;
+  /** Provider of the whole tree, taking the props of StateNamespaceProvider */
+  Provider: (props: ProviderProps) => ReactNode;
+  /**
+   * Provider of the namespace at path, inside the provider of an enclosing
+   * namespace. Other props apply to that namespace.
+   */
+  NamespaceProvider: (
+    props: ProviderProps & { path: StateTreePath<Entries> },
+  ) => ReactNode;
+  /** Reads and writes a plain key of the namespace at path */
+  useKey: <
+    Path extends StateTreePath<Entries>,
+    Key extends ValueKeys<EntriesAt<Entries, Path>>,
+  >(
+    path: Path,
+    key: Key,
+  ) => [
+    ValueOf<EntriesAt<Entries, Path>[Key]>,
+    (
+      update:
+        | ValueOf<EntriesAt<Entries, Path>[Key]>
+        | ((
+            prev: ValueOf<EntriesAt<Entries, Path>[Key]>,
+          ) => ValueOf<EntriesAt<Entries, Path>[Key]>),
+    ) => void,
+  ];
+  /** Reads a reducer key of the namespace at path, with its dispatch */
+  useReducer: <
+    Path extends StateTreePath<Entries>,
+    Key extends ReducerKeys<EntriesAt<Entries, Path>>,
+  >(
+    path: Path,
+    key: Key,
+  ) => ReducerHookResult<EntriesAt<Entries, Path>[Key]>;
+};
+
+function splitPath(path: string): string[] {
+  return path ? path.split("/") : [];
+}
+
+function isSchema(value: unknown, kind: string): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { [schemaKind]?: string })[schemaKind] === kind
+  );
+}
+
+// Returns the entry declared for a key, throwing for undeclared paths and
+// keys, which typed callers can't reach.
+function getEntry(
+  entries: NamespaceEntries,
+  path: string,
+  key: string,
+): unknown {
+  let node = entries;
+  for (const segment of splitPath(path)) {
+    const child = node[segment];
+    if (!isSchema(child, "namespace")) {
+      throw new Error(`namespace /${path} is not declared in the state tree`);
+    }
+    node = (child as NamespaceSchema<NamespaceEntries>).entries;
+  }
+  if (!(key in node) || isSchema(node[key], "namespace")) {
+    throw new Error(`key ${key} is not declared in namespace /${path}`);
+  }
+  return node[key];
+}
+
+/**
+ * Declares the namespaces, keys, defaults and reducers of a state tree once,
+ * returning hooks and providers typed after it. Paths and keys autocomplete,
+ * value types are inferred from the defaults, and unknown paths or keys are
+ * compile-time errors.
+ *
+ * @example
+ * const tree = defineStateTree({
+ *   theme: "light",
+ *   todos: defineReducer(todoReducer, [] as Todo[]),
+ *   editor: defineNamespace({ draft: defineKey("", { persist: "session" }) }),
+ * });
+ * const [draft, setDraft] = tree.useKey("editor", "draft");
+ *
+ * @param {NamespaceEntries} entries - Entries of the root namespace
+ * @returns {StateTree} The typed hooks and providers
+ */
+export function defineStateTree<Entries extends NamespaceEntries>(
+  entries: Entries,
+): StateTree<Entries> {
+  function Provider(props: ProviderProps) {
+    return <StateNamespaceProvider {...props} />;
+  }
+
+  function NamespaceProvider({
+    path,
+    children,
+    ...props
+  }: ProviderProps & { path: string }) {
+    const { namespace } = useContext(NamespaceContext);
+    const segments = splitPath(path);
+    if (
+      namespace.length > segments.length ||
+      namespace.some((segment, i) => segments[i] !== segment)
+    ) {
+      throw new Error(
+        `namespace /${path} is not inside /${namespace.join("/")}`,
+      );
+    }
+    // Intermediate namespaces get plain providers, the props apply to the
+    // namespace at path.
+    const rest = segments.slice(namespace.length);
+    return rest.reduceRight<ReactNode>(
+      (inner, segment, i) =>
+        i === rest.length - 1 ? (
+          <StateNamespaceProvider {...props} namespace={segment}>
+            {inner}
+          </StateNamespaceProvider>
+        ) : (
+          <StateNamespaceProvider namespace={segment}>
+            {inner}
+          </StateNamespaceProvider>
+        ),
+      rest.length ? (
+        children
+      ) : (
+        <StateNamespaceProvider {...props}>{children}</StateNamespaceProvider>
+      ),
+    );
+  }
+
+  function useKey<
+    Path extends StateTreePath<Entries>,
+    Key extends ValueKeys<EntriesAt<Entries, Path>>,
+  >(path: Path, key: Key) {
+    type Value = ValueOf<EntriesAt<Entries, Path>[Key]>;
+    const entry = getEntry(entries, path, key);
+    const { defaultValue, options } = isSchema(entry, "key")
+      ? (entry as KeySchema<Value>)
+      : { defaultValue: entry as Value, options: undefined };
+    return useStateNamespaceAtom(
+      { path: splitPath(path) },
+      key,
+      defaultValue,
+      options,
+    );
+  }
+
+  function useReducer<
+    Path extends StateTreePath<Entries>,
+    Key extends ReducerKeys<EntriesAt<Entries, Path>>,
+  >(path: Path, key: Key) {
+    const entry = getEntry(entries, path, key);
+    if (!isSchema(entry, "reducer")) {
+      throw new Error(`key ${key} in namespace /${path} is not a reducer`);
+    }
+    const { reducer, initialState, options } = entry as ReducerSchema<
+      unknown,
+      unknown
+    >;
+    // getEntry checked the entry is the reducer the path and key declare.
+    return useStateNamespaceReducerAtom(
+      { path: splitPath(path) },
+      key,
+      reducer,
+      initialState,
+      options,
+    ) as ReducerHookResult<EntriesAt<Entries, Path>[Key]>;
+  }
+
+  return { entries, Provider, NamespaceProvider, useKey, useReducer };
+}
@@ -0,0 +1,236 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { atom } from "jotai";
+import { StateNamespaceProvider, useStateNamespaceAtom } from "./jotai-persist";
+import {
+  atomWithAsyncStorage,
+  createMemoryAsyncStorage,
+} from "./async-storage";
+import { createStateTree } from "./state-tree";
+
+afterEach(cleanup);
+
+const nested = ["main", "secondary", "nested"];
+
+function Counter() {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  return (
+    <button data-testid="count" onClick={() => setCount((c) => c + 1)}>
+      {count}
+    </button>
+  );
+}
+
+function renderNested(tree: ReturnType<typeof createStateTree>) {
+  render(
+    <StateNamespaceProvider tree={tree}>
+      <StateNamespaceProvider namespace="main">
+        <StateNamespaceProvider namespace="secondary">
+          <StateNamespaceProvider namespace="nested">
+            <Counter />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    </StateNamespaceProvider>,
+  );
+}
+
+describe("createStateTree", () => {
+  it("reads and writes keys without React", () => {
+    const storage = atom<Record<string, unknown>>({});
+    const tree = createStateTree(storage);
+
+    expect(tree.get(nested, "count")).toBeUndefined();
+    tree.set(nested, "count", 1);
+    tree.set<number>(nested, "count", (count = 0) => count + 1);
+    expect(tree.get(nested, "count")).toBe(2);
+    expect(tree.store.get(storage)).toEqual({
+      $layout: 1,
+      $children: {
+        main: {
+          $children: {
+            secondary: { $children: { nested: { count: 2 } } },
+          },
+        },
+      },
+    });
+  });
+
+  it("notifies subscribers of changes within their namespace", () => {
+    const tree = createStateTree(atom({}));
+    const onMain = vi.fn();
+    const onOther = vi.fn();
+    const unsubscribe = tree.subscribe(["main"], onMain);
+    tree.subscribe(["other"], onOther);
+
+    tree.set(nested, "count", 1);
+    expect(onMain).toHaveBeenCalledTimes(1);
+    expect(onMain).toHaveBeenCalledWith(
+      expect.objectContaining({ $children: expect.anything() }),
+    );
+    expect(onOther).not.toHaveBeenCalled();
+
+    unsubscribe();
+    tree.set(nested, "count", 2);
+    expect(onMain).toHaveBeenCalledTimes(1);
+  });
+
+  it("dispatches actions to declared reducers", () => {
+    const tree = createStateTree(atom({}), {
+      reducers: [
+        {
+          path: ["todos"],
+          key: "items",
+          reducer: (items: string[], action: { add: string }) => [
+            ...items,
+            action.add,
+          ],
+          initialState: [],
+        },
+      ],
+    });
+
+    tree.dispatch(["todos"], "items", { add: "a" });
+    tree.dispatch(["todos"], "items", { add: "b" });
+    expect(tree.get(["todos"], "items")).toEqual(["a", "b"]);
+    expect(() => tree.dispatch(["todos"], "other", {})).toThrow(
+      "no reducer is declared for todos:other",
+    );
+  });
+
+  it("shares the tree with a provider mounting it", () => {
+    const tree = createStateTree(atom({}));
+    tree.set(nested, "count", 5);
+    renderNested(tree);
+    expect(screen.getByTestId("count").textContent).toBe("5");
+
+    act(() => tree.set(nested, "count", 7));
+    expect(screen.getByTestId("count").textContent).toBe("7");
+
+    const onChange = vi.fn();
+    tree.subscribe(nested, onChange);
+    fireEvent.click(screen.getByTestId("count"));
+    expect(tree.get(nested, "count")).toBe(8);
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({ count: 8 }),
+    );
+  });
+
+  it("reads and writes keys at their version", () => {
+    const storage = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: { shop: { price: 2.5 } },
+    });
+    const tree = createStateTree(storage);
+    const options = { version: 1, migrations: [(v: unknown) => +v! * 100] };
+
+    expect(tree.get(["shop"], "price", options)).toBe(250);
+    tree.set(["shop"], "price", 300, options);
+    expect(tree.store.get(storage)).toEqual({
+      $layout: 1,
+      $children: { shop: { price: 300, $versions: { price: 1 } } },
+    });
+
+    function Price() {
+      const [price] = useStateNamespaceAtom(null, "price", 0, options);
+      return <span data-testid="price">{price}</span>;
+    }
+    render(
+      <StateNamespaceProvider tree={tree}>
+        <StateNamespaceProvider namespace="shop">
+          <Price />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+    expect(screen.getByTestId("price").textContent).toBe("300");
+  });
+
+  it("writes through the middleware of mounted providers", () => {
+    const tree = createStateTree(atom({}), {
+      reducers: [
+        {
+          path: nested,
+          key: "count",
+          reducer: (count: number, action: { add: number }) =>
+            count + action.add,
+          initialState: 0,
+        },
+      ],
+    });
+    const writes: unknown[] = [];
+    render(
+      <StateNamespaceProvider tree={tree}>
+        <StateNamespaceProvider namespace="main">
+          <StateNamespaceProvider
+            namespace="secondary"
+            middleware={[
+              (write, next) => {
+                writes.push(write);
+                next({
+                  ...write,
+                  nextValue: Math.min(write.nextValue as number, 10),
+                });
+              },
+            ]}
+          >
+            <StateNamespaceProvider namespace="nested">
+              <Counter />
+            </StateNamespaceProvider>
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+
+    act(() => tree.set(nested, "count", 20));
+    expect(screen.getByTestId("count").textContent).toBe("10");
+    act(() => tree.dispatch(nested, "count", { add: -4 }));
+    expect(screen.getByTestId("count").textContent).toBe("6");
+    expect(writes).toEqual([
+      { path: nested, key: "count", prevValue: undefined, nextValue: 20 },
+      {
+        path: nested,
+        key: "count",
+        prevValue: 10,
+        nextValue: 6,
+        action: { add: -4 },
+      },
+    ]);
+
+    // Once unmounted, writes skip the providers' middleware.
+    cleanup();
+    tree.set(nested, "count", 20);
+    expect(tree.get(nested, "count")).toBe(20);
+  });
+
+  it("resolves hydrated once asynchronous storage has loaded", async () => {
+    const tree = createStateTree(
+      atomWithAsyncStorage(
+        "app",
+        createMemoryAsyncStorage({ app: { $layout: 1, count: 3 } }),
+      ),
+    );
+    await tree.hydrated();
+    expect(tree.get([], "count")).toBe(3);
+  });
+
+  it("can only be mounted by the outermost provider", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const tree = createStateTree(atom({}));
+    expect(() =>
+      render(
+        <StateNamespaceProvider rootAtom={atom({})}>
+          <StateNamespaceProvider tree={tree}>
+            <Counter />
+          </StateNamespaceProvider>
+        </StateNamespaceProvider>,
+      ),
+    ).toThrow("a state tree can only be mounted by the outermost provider");
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,281 @@
+import { atom, createStore } from "jotai";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import { getNamespaceHydration } from "./async-storage.js";
+import { formatKeyLabel, getNodeAtom } from "./atom-cache.js";
+import {
+  getMiddleware,
+  runMiddleware,
+  type NamespaceMiddlewareScope,
+} from "./middleware.js";
+import {
+  applyUpdate,
+  describeUpdate,
+  getNamespaceNode,
+  getUpdateDescription,
+  migrateTreeLayout,
+} from "./namespace-tree.js";
+import {
+  readKeyValue,
+  writeKeyValue,
+  type StoredValueOptions,
+} from "./validation.js";
+
+type Store = ReturnType<typeof createStore>;
+
+/**
+ * A reducer key of a state tree, updated with dispatch. Its version,
+ * migrations and parser are those the key is declared with in components.
+ */
+export type StateTreeReducer<State = unknown, Action = unknown> = {
+  path: string[];
+  key: string;
+  // A method, so reducers of any state and action fit StateTreeReducer[].
+  reducer(state: State, action: Action): State;
+  /** State reduced when the key has no stored value */
+  initialState: State;
+} & StoredValueOptions<State>;
+
+/**
+ * Options for createStateTree
+ */
+export type StateTreeOptions = {
+  /** Jotai store holding the tree, defaults to a new store */
+  store?: Store;
+  /** Reducer keys actions can be dispatched to */
+  reducers?: StateTreeReducer[];
+};
+
+/**
+ * A namespaced state tree read and written without React. Keys are read and
+ * written at the version, with the migrations and parser, passed as options,
+ * like those of useStateNamespaceAtom.
+ *
+ * Once mounted, reads and writes go through the innermost provider holding
+ * the key, with its encryption, sync, write policy, history, devtools and
+ * middleware. Before that, and for keys kept in sessionStorage or memory,
+ * which the tree doesn't reach, the tree is used as stored.
+ */
+export type NamespaceStateTree = {
+  /** The store holding the tree, shared with React when mounted */
+  store: Store;
+  /** The storage atom, mounted as the rootAtom of StateNamespaceProvider */
+  rootAtom: NamespaceRootAtom;
+  /** Returns the value of a key, or undefined if it isn't set or is invalid */
+  get: <T = unknown>(
+    path: string[],
+    key: string,
+    options?: StoredValueOptions<T>,
+  ) => T | undefined;
+  /**
+   * Writes a value, or an updater called with the current value. Values
+   * stored by a newer schema are left as they are.
+   */
+  set: <T = unknown>(
+    path: string[],
+    key: string,
+    update: T | ((prev: T | undefined) => T),
+    options?: StoredValueOptions<T>,
+  ) => void;
+  /**
+   * Calls callback with the namespace node whenever the namespace or any
+   * namespace below it changes, returning a function that unsubscribes
+   */
+  subscribe: (
+    path: string[],
+    callback: (node: Record<string, unknown>) => void,
+  ) => () => void;
+  /** Writes the state a reducer key's reducer returns for the action */
+  dispatch: (path: string[], key: string, action: unknown) => void;
+  /** Resolves once storage has loaded, at once for synchronous storage */
+  hydrated: () => Promise<void>;
+};
+
+/**
+ * A provider mounted under a state tree, which the tree reads and writes
+ * keys in its subtree through
+ */
+export type StateTreeProvider = {
+  path: string[];
+  /** The provider's view of the tree, as its hooks read and write it */
+  namespaceAtom: NamespaceRootAtom;
+  /** Middleware applying to writes in the provider's subtree */
+  middleware: NamespaceMiddlewareScope[];
+};
+
+const treeProviders = new WeakMap<NamespaceStateTree, StateTreeProvider[]>();
+
+/**
+ * Registers a provider mounted under a tree, returning a function that
+ * unregisters it.
+ */
+export function registerTreeProvider(
+  tree: NamespaceStateTree,
+  provider: StateTreeProvider,
+): () => void {
+  const providers = treeProviders.get(tree) ?? [];
+  treeProviders.set(tree, [...providers, provider]);
+  return () =>
+    treeProviders.set(
+      tree,
+      (treeProviders.get(tree) ?? []).filter((p) => p !== provider),
+    );
+}
+
+/**
+ * Creates a state tree usable outside React, in services, web workers or
+ * test setup. Mount it with the tree prop of the outermost
+ * StateNamespaceProvider, so components and other code share the same tree.
+ *
+ * @example
+ * const tree = createStateTree(atomWithShardedStorage("app"));
+ * tree.set(["main", "secondary", "nested"], "count", (count = 0) => count + 1);
+ * render(<StateNamespaceProvider tree={tree}>...</StateNamespaceProvider>);
+ *
+ * @param {NamespaceRootAtom} storage - The atom persisting the tree, as passed to rootAtom
+ * @param {StateTreeOptions} [options] - The store and reducers
+ * @returns {NamespaceStateTree} The tree
+ */
+export function createStateTree(
+  storage: NamespaceRootAtom,
+  options: StateTreeOptions = {},
+): NamespaceStateTree {
+  const { store = createStore(), reducers = [] } = options;
+
+  // Trees are read in the current layout, which is persisted with the next
+  // write, as StateNamespaceProvider does.
+  const treeAtom: NamespaceRootAtom = atom(
+    (get) => migrateTreeLayout(get(storage)),
+    (_get, set, update) =>
+      set(
+        storage,
+        describeUpdate(
+          (state) => applyUpdate(migrateTreeLayout(state), update),
+          getUpdateDescription(update),
+        ),
+      ),
+  );
+
+  // The innermost mounted provider holding path, the latest if several do.
+  const getProvider = (path: string[]) =>
+    (treeProviders.get(tree) ?? []).reduce<StateTreeProvider | undefined>(
+      (innermost, provider) =>
+        provider.path.every((segment, i) => path[i] === segment) &&
+        provider.path.length >= (innermost?.path.length ?? 0)
+          ? provider
+          : innermost,
+      undefined,
+    );
+  const readNode = (path: string[]) =>
+    getNamespaceNode(
+      store.get(getProvider(path)?.namespaceAtom ?? treeAtom),
+      path,
+    );
+
+  // Writes a key as useStateNamespaceAtom's setter does.
+  const write = <T>(
+    path: string[],
+    key: string,
+    defaultValue: T,
+    options: StoredValueOptions<T>,
+    getValue: (prev: T) => T,
+    dispatched?: { action: unknown },
+  ) => {
+    const provider = getProvider(path);
+    const description = { path, key, ...dispatched };
+    const apply = (getNextValue: (prev: T) => T) =>
+      store.set(
+        provider?.namespaceAtom ?? treeAtom,
+        describeUpdate(
+          (state) =>
+            writeKeyValue(
+              state,
+              path,
+              key,
+              defaultValue,
+              options,
+              getNextValue,
+            ),
+          description,
+        ),
+      );
+    const middleware = provider ? getMiddleware(provider.middleware, path) : [];
+    if (!middleware.length) {
+      apply(getValue);
+      return;
+    }
+    const prevValue = readKeyValue(
+      readNode(path),
+      path,
+      key,
+      defaultValue,
+      options,
+    ).value;
+    runMiddleware(
+      middleware,
+      { path, key, prevValue, nextValue: getValue(prevValue), ...dispatched },
+      ({ nextValue }) => apply(() => nextValue as T),
+    );
+  };
+
+  const tree: NamespaceStateTree = {
+    store,
+    rootAtom: storage,
+    get: <T>(
+      path: string[],
+      key: string,
+      options: StoredValueOptions<T> = {},
+    ) =>
+      readKeyValue<T | undefined>(readNode(path), path, key, undefined, options)
+        .value,
+    set: <T>(
+      path: string[],
+      key: string,
+      update: T | ((prev: T | undefined) => T),
+      options: StoredValueOptions<T> = {},
+    ) =>
+      write<T | undefined>(path, key, undefined, options, (prev) =>
+        typeof update === "function"
+          ? (update as (prev: T | undefined) => T)(prev)
+          : update,
+      ),
+    subscribe: (path, callback) => {
+      const nodeAtom = getNodeAtom(treeAtom, path);
+      return store.sub(nodeAtom, () => callback(readNode(path)));
+    },
+    dispatch: (path, key, action) => {
+      const entry = reducers.find(
+        (reducer) =>
+          reducer.key === key &&
+          reducer.path.length === path.length &&
+          reducer.path.every((segment, i) => path[i] === segment),
+      );
+      if (!entry) {
+        throw new Error(
+          `no reducer is declared for ${formatKeyLabel(path, key)}`,
+        );
+      }
+      write(
+        path,
+        key,
+        entry.initialState,
+        entry,
+        (prev) => entry.reducer(prev, action),
+        { action },
+      );
+    },
+    hydrated: async () => {
+      const hydration = getNamespaceHydration(storage);
+      if (!hydration) {
+        return;
+      }
+      // The tree stays mounted while loading, so its atoms see the result.
+      const unsubscribe = store.sub(treeAtom, () => {});
+      try {
+        await store.get(hydration.hydrationAtom);
+      } finally {
+        unsubscribe();
+      }
+    },
+  };
+  return tree;
+}
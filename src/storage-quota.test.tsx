@@ -0,0 +1,174 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { cleanup, render, fireEvent, screen } from "@testing-library/react";
+import {
+  StateNamespaceProvider,
+  useNamespaceStorageStats,
+  useStateNamespaceAtom,
+} from "./jotai-persist";
+import { atomWithShardedStorage, type ShardStorage } from "./sharded-storage";
+import type { NamespaceQuotaOptions } from "./storage-quota";
+
+afterEach(cleanup);
+
+// In-memory ShardStorage throwing once its values exceed limit characters.
+function createLimitedStorage(
+  limit: number,
+  initial: Record<string, unknown> = {},
+) {
+  const items = new Map(
+    Object.entries(initial).map(([key, value]) => [key, JSON.stringify(value)]),
+  );
+  const used = () =>
+    [...items.values()].reduce((total, value) => total + value.length, 0);
+  const storage: ShardStorage = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      if (used() - (items.get(key)?.length ?? 0) + value.length > limit) {
+        throw new DOMException("storage is full", "QuotaExceededError");
+      }
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    keys: () => [...items.keys()],
+  };
+  return { storage, items, used };
+}
+
+function Draft() {
+  const [draft, setDraft] = useStateNamespaceAtom(null, "draft", "");
+  const [, setPreview] = useStateNamespaceAtom(null, "preview", "", {
+    essential: false,
+  });
+  return (
+    <input
+      data-testid="draft"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={(e) => setPreview(e.target.value.repeat(4))}
+    />
+  );
+}
+
+function renderDraft(storage: ShardStorage, quota: NamespaceQuotaOptions) {
+  const rootAtom = atomWithShardedStorage("app", {
+    storage,
+    legacyKey: null,
+  });
+  render(
+    <StateNamespaceProvider rootAtom={rootAtom} quota={quota}>
+      <StateNamespaceProvider namespace="main">
+        <Draft />
+      </StateNamespaceProvider>
+    </StateNamespaceProvider>,
+  );
+}
+
+const type = (text: string) =>
+  fireEvent.change(screen.getByTestId("draft"), { target: { value: text } });
+
+describe("storage quota", () => {
+  it("reports quota errors, keeping the state in memory", () => {
+    const { storage, items } = createLimitedStorage(40);
+    const onQuotaExceeded = vi.fn();
+    renderDraft(storage, { onQuotaExceeded });
+
+    type("x".repeat(50));
+    expect(screen.getByTestId("draft")).toHaveProperty("value", "x".repeat(50));
+    expect(onQuotaExceeded).toHaveBeenCalledWith(
+      expect.objectContaining({ persisted: false, droppedKeys: [] }),
+    );
+    expect(onQuotaExceeded.mock.calls[0][0].error.name).toBe(
+      "QuotaExceededError",
+    );
+    expect(items.has("app/main")).toBe(false);
+
+    // The unwritten shard is written once it fits.
+    type("short");
+    expect(JSON.parse(items.get("app/main")!).draft).toBe("short");
+  });
+
+  it("drops non-essential keys", () => {
+    const { storage, items } = createLimitedStorage(120);
+    const onQuotaExceeded = vi.fn();
+    renderDraft(storage, {
+      strategies: ["drop-non-essential"],
+      onQuotaExceeded,
+    });
+    type("x".repeat(15));
+    fireEvent.blur(screen.getByTestId("draft"));
+    expect(JSON.parse(items.get("app/main")!).preview).toBe("x".repeat(60));
+
+    type("x".repeat(40));
+    expect(onQuotaExceeded).toHaveBeenCalledWith(
+      expect.objectContaining({
+        persisted: true,
+        droppedKeys: [{ path: ["main"], key: "preview" }],
+      }),
+    );
+    expect(JSON.parse(items.get("app/main")!)).toEqual({
+      draft: "x".repeat(40),
+    });
+  });
+
+  it("evicts the least recently used namespaces not in use", () => {
+    const { storage, items } = createLimitedStorage(160, {
+      "app/": { $layout: 1 },
+      "app/recent": { notes: "r".repeat(30), $accessed: { notes: 2000 } },
+      "app/old": { notes: "o".repeat(30), $accessed: { notes: 1000 } },
+    });
+    const onQuotaExceeded = vi.fn();
+    renderDraft(storage, { strategies: ["evict-lru"], onQuotaExceeded });
+
+    type("x".repeat(40));
+    expect(onQuotaExceeded).toHaveBeenCalledWith(
+      expect.objectContaining({
+        persisted: true,
+        evictedNamespaces: [["old"]],
+      }),
+    );
+    expect([...items.keys()].sort()).toEqual([
+      "app/",
+      "app/main",
+      "app/recent",
+    ]);
+  });
+
+  it("reports the size of each subtree", () => {
+    function Stats() {
+      const stats = useNamespaceStorageStats();
+      return (
+        <output data-testid="stats">
+          {[stats, ...stats.children]
+            .map(({ path, size }) => `${path.join("/") || "root"}:${size}`)
+            .join(" ")}
+        </output>
+      );
+    }
+    const { storage } = createLimitedStorage(1000, {
+      "app/": { $layout: 1 },
+      "app/main": { draft: "hello" },
+    });
+    render(
+      <StateNamespaceProvider
+        rootAtom={atomWithShardedStorage("app", { storage })}
+      >
+        <Stats />
+        <StateNamespaceProvider namespace="main">
+          <Draft />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+    const main = JSON.stringify({ draft: "hello" }).length;
+    const root = JSON.stringify({ $layout: 1 }).length + '"main":'.length;
+    expect(screen.getByTestId("stats").textContent).toBe(
+      `root:${root + main} main:${main}`,
+    );
+
+    type("hello world");
+    expect(screen.getByTestId("stats").textContent).toContain(
+      `main:${JSON.stringify({ draft: "hello world" }).length}`,
+    );
+  });
+});
@@ -0,0 +1,310 @@
+import { atom } from "jotai";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import {
+  CHILDREN_KEY,
+  getChildNodes,
+  getNamespaceNode,
+  markMaintenanceUpdate,
+  removeDeepNode,
+  updateDeepNode,
+} from "./namespace-tree.js";
+import { ACCESSED_KEY } from "./garbage-collection.js";
+import { KEY_VERSIONS_KEY } from "./migrations.js";
+
+/**
+ * How a provider frees space when storage is full:
+ * - "drop-non-essential" removes keys declared with essential: false
+ * - "evict-lru" removes the least recently accessed namespace subtrees not
+ *   in use, by the access stamps recorded under gc, one at a time
+ * - "notify" frees nothing and only reports the error
+ */
+export type QuotaStrategy = "drop-non-essential" | "evict-lru" | "notify";
+
+/**
+ * What happened when a write exceeded the storage quota
+ */
+export type QuotaReport = {
+  error: unknown;
+  /** Non-essential keys removed */
+  droppedKeys: { path: string[]; key: string }[];
+  /** Namespace subtrees evicted */
+  evictedNamespaces: string[][];
+  /** False if the tree stays in memory only, as freeing space did not help */
+  persisted: boolean;
+};
+
+/**
+ * Options for recovering from storage quota errors
+ */
+export type NamespaceQuotaOptions = {
+  /** Strategies tried in order until the write fits, defaults to ["notify"] */
+  strategies?: QuotaStrategy[];
+  /** Called after every quota error with what was done about it */
+  onQuotaExceeded?: (report: QuotaReport) => void;
+};
+
+/**
+ * Serialized size of a namespace subtree, in UTF-16 code units as counted
+ * by Web Storage quotas, before any compression
+ */
+export type NamespaceStorageStats = {
+  path: string[];
+  /** Size of the whole subtree */
+  size: number;
+  /** Size of the namespace's own keys and metadata */
+  ownSize: number;
+  children: NamespaceStorageStats[];
+};
+
+/**
+ * Returns true for the errors browsers throw when storage is full.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof DOMException) && !(error instanceof Error)) {
+    return false;
+  }
+  return (
+    error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    (error as DOMException).code === 22
+  );
+}
+
+type MeasuredNode = {
+  size: number;
+  ownSize: number;
+  children: [string, Record<string, unknown>][];
+};
+
+// Sizes computed per node, reused while the node is unchanged.
+const statsCache = new WeakMap<object, MeasuredNode>();
+
+function measureNode(node: Record<string, unknown>): MeasuredNode {
+  let measured = statsCache.get(node);
+  if (!measured) {
+    const own = { ...node };
+    delete own[CHILDREN_KEY];
+    const children = Object.entries(getChildNodes(node));
+    const ownSize = JSON.stringify(own).length;
+    const size = children.reduce(
+      (total, [name, child]) =>
+        total + JSON.stringify(name).length + 1 + measureNode(child).size,
+      ownSize,
+    );
+    measured = { size, ownSize, children };
+    statsCache.set(node, measured);
+  }
+  return measured;
+}
+
+/**
+ * Measures the serialized size of a namespace node and each subtree below it.
+ * @param node - The namespace node
+ * @param path - Namespace path of the node
+ * @returns The sizes
+ */
+export function getStorageStats(
+  node: Record<string, unknown>,
+  path: string[],
+): NamespaceStorageStats {
+  const visit = (
+    node: Record<string, unknown>,
+    nodePath: string[],
+  ): NamespaceStorageStats => {
+    const { size, ownSize, children } = measureNode(node);
+    return {
+      path: nodePath,
+      size,
+      ownSize,
+      children: children.map(([name, child]) =>
+        visit(child, [...nodePath, name]),
+      ),
+    };
+  };
+  return visit(node, path);
+}
+
+/**
+ * Tracks keys used by mounted hooks, and the keys declared non-essential
+ */
+export type NamespaceQuotaTracker = {
+  /** Registers a mounted key, returning a function that unregisters it */
+  track: (path: string[], key: string, essential: boolean) => () => void;
+  /** Whether any mounted key is at or below path */
+  isInUse: (path: string[]) => boolean;
+  /** Keys declared non-essential since the tracker was created */
+  nonEssentialKeys: () => { path: string[]; key: string }[];
+};
+
+/**
+ * Creates a tracker of mounted and non-essential keys.
+ */
+export function createQuotaTracker(): NamespaceQuotaTracker {
+  const mounted = new Map<string, { path: string[]; count: number }>();
+  const nonEssential = new Map<string, { path: string[]; key: string }>();
+  const id = (path: string[], key: string) => JSON.stringify([...path, key]);
+  return {
+    track: (path, key, essential) => {
+      const keyId = id(path, key);
+      if (!essential) {
+        nonEssential.set(keyId, { path, key });
+      }
+      const entry = mounted.get(keyId) ?? { path, count: 0 };
+      entry.count++;
+      mounted.set(keyId, entry);
+      return () => {
+        if (!--entry.count) {
+          mounted.delete(keyId);
+        }
+      };
+    },
+    isInUse: (path) =>
+      [...mounted.values()].some((entry) =>
+        path.every((segment, i) => entry.path[i] === segment),
+      ),
+    nonEssentialKeys: () => [...nonEssential.values()],
+  };
+}
+
+// Removes a key along with its metadata.
+function dropKey(
+  state: Record<string, unknown>,
+  path: string[],
+  key: string,
+): Record<string, unknown> {
+  return updateDeepNode(state, path, (node) => {
+    const next = { ...node };
+    delete next[key];
+    for (const metadataKey of [KEY_VERSIONS_KEY, ACCESSED_KEY]) {
+      const metadata = next[metadataKey] as Record<string, unknown> | undefined;
+      if (metadata && key in metadata) {
+        const rest = { ...metadata };
+        delete rest[key];
+        next[metadataKey] = rest;
+      }
+    }
+    return next;
+  });
+}
+
+// Returns the namespace below root accessed least recently and not in use,
+// by its latest access stamp. Namespaces without stamps come first.
+function findLeastRecentlyUsed(
+  state: Record<string, unknown>,
+  root: string[],
+  isInUse: (path: string[]) => boolean,
+): string[] | null {
+  const oldest = { path: null as string[] | null, accessed: Infinity };
+  // Returns the latest access stamp in the subtree.
+  const visit = (node: Record<string, unknown>, path: string[]): number => {
+    const stamps = Object.values(
+      (node[ACCESSED_KEY] as Record<string, number> | undefined) ?? {},
+    );
+    let accessed = stamps.length ? Math.max(...stamps) : -Infinity;
+    for (const [name, child] of Object.entries(getChildNodes(node))) {
+      accessed = Math.max(accessed, visit(child, [...path, name]));
+    }
+    if (
+      path.length > root.length &&
+      !isInUse(path) &&
+      accessed < oldest.accessed
+    ) {
+      oldest.path = path;
+      oldest.accessed = accessed;
+    }
+    return accessed;
+  };
+  visit(getNamespaceNode(state, root), root);
+  return oldest.path;
+}
+
+/**
+ * Creates a view of a root atom recovering from quota errors thrown by its
+ * storage. The failed tree is kept in memory, then each strategy frees space
+ * and retries the write, until it fits or all strategies have been tried.
+ *
+ * @param {NamespaceRootAtom} rootAtom - The atom writing to storage
+ * @param {string[]} root - Namespace path of the subtree space is freed in
+ * @param {NamespaceQuotaTracker} tracker - Mounted and non-essential keys
+ * @param {() => NamespaceQuotaOptions} getOptions - Returns the latest options
+ * @returns {NamespaceRootAtom} The view
+ */
+export function createQuotaAtom(
+  rootAtom: NamespaceRootAtom,
+  root: string[],
+  tracker: NamespaceQuotaTracker,
+  getOptions: () => NamespaceQuotaOptions,
+): NamespaceRootAtom {
+  return atom(
+    (get) => get(rootAtom),
+    (get, set, update) => {
+      try {
+        set(rootAtom, update);
+        return;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) {
+          throw error;
+        }
+        const { strategies = ["notify"], onQuotaExceeded } = getOptions();
+        const report: QuotaReport = {
+          error,
+          droppedKeys: [],
+          evictedNamespaces: [],
+          persisted: false,
+        };
+        // Writes the freed tree, returning true once it fits.
+        const retry = (
+          free: (state: Record<string, unknown>) => typeof state,
+        ) => {
+          try {
+            set(rootAtom, markMaintenanceUpdate(free));
+            return true;
+          } catch (retryError) {
+            if (!isQuotaExceededError(retryError)) {
+              throw retryError;
+            }
+            return false;
+          }
+        };
+
+        for (const strategy of strategies) {
+          if (strategy === "drop-non-essential") {
+            const keys = tracker
+              .nonEssentialKeys()
+              .filter(
+                ({ path, key }) => key in getNamespaceNode(get(rootAtom), path),
+              );
+            if (!keys.length) {
+              continue;
+            }
+            report.droppedKeys.push(...keys);
+            report.persisted = retry((state) =>
+              keys.reduce(
+                (next, { path, key }) => dropKey(next, path, key),
+                state,
+              ),
+            );
+          } else if (strategy === "evict-lru") {
+            for (;;) {
+              const state = get(rootAtom);
+              const path = findLeastRecentlyUsed(state, root, tracker.isInUse);
+              if (!path) {
+                break;
+              }
+              report.evictedNamespaces.push(path);
+              report.persisted = retry((state) => removeDeepNode(state, path));
+              // Stop if the backend didn't keep the freed tree either.
+              if (report.persisted || get(rootAtom) === state) {
+                break;
+              }
+            }
+          }
+          if (report.persisted) {
+            break;
+          }
+        }
+        onQuotaExceeded?.(report);
+      }
+    },
+  );
+}
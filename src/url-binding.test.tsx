@@ -0,0 +1,174 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import {
+  StateNamespaceProvider,
+  useNamespaceHistory,
+  useStateNamespaceAtom,
+  type NamespacedAtomOptions,
+} from "./jotai-persist";
+import { getNamespaceNode } from "./namespace-tree";
+import type { UrlSerializer } from "./url-binding";
+
+afterEach(() => {
+  cleanup();
+  window.history.replaceState(null, "", "/");
+});
+
+function Page({ options }: { options: NamespacedAtomOptions<number> }) {
+  const [page, setPage] = useStateNamespaceAtom(null, "page", 1, options);
+  return (
+    <>
+      <button data-testid="page" onClick={() => setPage((p) => p + 1)}>
+        {page}
+      </button>
+      <button data-testid="first" onClick={() => setPage(1)} />
+    </>
+  );
+}
+
+function renderPage(
+  options: NamespacedAtomOptions<number> = { url: true },
+  initialState: Record<string, unknown> = {},
+) {
+  const rootAtom = atom(initialState);
+  const store = createStore();
+  render(
+    <Provider store={store}>
+      <StateNamespaceProvider rootAtom={rootAtom} namespace="main">
+        <Page options={options} />
+      </StateNamespaceProvider>
+    </Provider>,
+  );
+  return () => getNamespaceNode(store.get(rootAtom), ["main"]).page;
+}
+
+const page = () => screen.getByTestId("page").textContent;
+const navigate = (url: string) =>
+  act(() => {
+    window.history.pushState(null, "", url);
+    window.dispatchEvent(new PopStateEvent("popstate"));
+  });
+
+describe("url binding", () => {
+  it("loads the parameter over the stored value", () => {
+    window.history.replaceState(null, "", "/?main.page=4");
+    const storedPage = renderPage({ url: true }, { main: { page: 2 } });
+    expect(page()).toBe("4");
+    expect(storedPage()).toBe(4);
+  });
+
+  it("loads the parameter without recording a write", () => {
+    function Undo() {
+      const { canUndo } = useNamespaceHistory();
+      return <span data-testid="can-undo">{String(canUndo)}</span>;
+    }
+    const middleware = vi.fn((write, next) => next(write));
+    window.history.replaceState(null, "", "/?main.page=4");
+    render(
+      <StateNamespaceProvider
+        rootAtom={atom({})}
+        namespace="main"
+        history={{}}
+        middleware={[middleware]}
+      >
+        <Page options={{ url: true }} />
+        <Undo />
+      </StateNamespaceProvider>,
+    );
+    expect(page()).toBe("4");
+    expect(screen.getByTestId("can-undo").textContent).toBe("false");
+    expect(middleware).not.toHaveBeenCalled();
+
+    // Navigating is a write like any other.
+    navigate("/?main.page=6");
+    expect(page()).toBe("6");
+    expect(screen.getByTestId("can-undo").textContent).toBe("true");
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+
+  it("writes the stored value when the URL has no parameter", () => {
+    renderPage({ url: true }, { main: { page: 2 } });
+    expect(page()).toBe("2");
+    expect(window.location.search).toBe("?main.page=2");
+  });
+
+  it("mirrors changes to the URL, replacing the history entry", () => {
+    renderPage();
+    const length = window.history.length;
+    fireEvent.click(screen.getByTestId("page"));
+    expect(window.location.search).toBe("?main.page=2");
+    expect(window.history.length).toBe(length);
+  });
+
+  it("pushes history entries and follows navigation", () => {
+    renderPage({ url: { history: "push" } });
+    const length = window.history.length;
+    fireEvent.click(screen.getByTestId("page"));
+    fireEvent.click(screen.getByTestId("page"));
+    expect(window.history.length).toBe(length + 2);
+
+    navigate("/?main.page=2");
+    expect(page()).toBe("2");
+    navigate("/");
+    expect(page()).toBe("1");
+  });
+
+  it("removes the parameter for the default value", () => {
+    window.history.replaceState(null, "", "/?main.page=3&other=1");
+    renderPage();
+    fireEvent.click(screen.getByTestId("first"));
+    expect(window.location.search).toBe("?other=1");
+
+    // URLs naming the default are left as they are.
+    navigate("/?main.page=1&other=1");
+    expect(page()).toBe("1");
+    expect(window.location.search).toBe("?main.page=1&other=1");
+  });
+
+  it("ignores parameters that fail to parse", () => {
+    window.history.replaceState(null, "", "/?main.page=abc");
+    renderPage({ url: true }, { main: { page: 2 } });
+    expect(page()).toBe("2");
+  });
+
+  it("uses explicit names, the hash and custom serializers", () => {
+    const tags: UrlSerializer<string[]> = {
+      stringify: (value) => value.join(","),
+      parse: (text) => text.split(","),
+    };
+    function Tags() {
+      const [value, setValue] = useStateNamespaceAtom<string[]>(
+        null,
+        "tags",
+        [],
+        { url: { param: "t", location: "hash", serializer: tags } },
+      );
+      return (
+        <button
+          data-testid="tags"
+          onClick={() => setValue((v) => [...v, "new"])}
+        >
+          {value.join("|")}
+        </button>
+      );
+    }
+    window.history.replaceState(null, "", "/#t=a,b");
+    render(
+      <StateNamespaceProvider rootAtom={atom({})} namespace="main">
+        <Tags />
+      </StateNamespaceProvider>,
+    );
+    expect(screen.getByTestId("tags").textContent).toBe("a|b");
+
+    fireEvent.click(screen.getByTestId("tags"));
+    expect(window.location.hash).toBe("#t=a%2Cb%2Cnew");
+    expect(window.location.search).toBe("");
+  });
+});
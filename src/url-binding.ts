@@ -0,0 +1,147 @@
+/**
+ * Converts a key's value to and from its URL parameter text
+ */
+export type UrlSerializer<T> = {
+  stringify: (value: T) => string;
+  /** Parses parameter text, throwing if it is invalid */
+  parse: (text: string) => T;
+};
+
+/**
+ * Mirrors a namespaced key to a URL parameter
+ */
+export type UrlBinding<T> = {
+  /** Parameter name, defaults to the namespace path and key joined by "." */
+  param?: string;
+  /** Whether the parameter is kept in the query string or the hash, defaults to "query" */
+  location?: "query" | "hash";
+  /** Whether changes push history entries or replace the current one, defaults to "replace" */
+  history?: "push" | "replace";
+  /** Converts values to parameter text, chosen from the default value's type by default */
+  serializer?: UrlSerializer<T>;
+};
+
+/** Keeps strings as they are */
+export const stringSerializer: UrlSerializer<string> = {
+  stringify: (value) => value,
+  parse: (text) => text,
+};
+
+/** Writes numbers as decimal text */
+export const numberSerializer: UrlSerializer<number> = {
+  stringify: (value) => String(value),
+  parse: (text) => {
+    const value = Number(text);
+    if (text.trim() === "" || Number.isNaN(value)) {
+      throw new Error(`${text} is not a number`);
+    }
+    return value;
+  },
+};
+
+/** Writes booleans as "true" or "false" */
+export const booleanSerializer: UrlSerializer<boolean> = {
+  stringify: (value) => String(value),
+  parse: (text) => {
+    if (text !== "true" && text !== "false") {
+      throw new Error(`${text} is not a boolean`);
+    }
+    return text === "true";
+  },
+};
+
+/** Writes any JSON value as JSON text */
+export const jsonSerializer: UrlSerializer<unknown> = {
+  stringify: (value) => JSON.stringify(value),
+  parse: (text) => JSON.parse(text),
+};
+
+/**
+ * Returns the serializer matching the type of a default value.
+ */
+export function getDefaultSerializer<T>(defaultValue: T): UrlSerializer<T> {
+  switch (typeof defaultValue) {
+    case "string":
+      return stringSerializer as unknown as UrlSerializer<T>;
+    case "number":
+      return numberSerializer as unknown as UrlSerializer<T>;
+    case "boolean":
+      return booleanSerializer as unknown as UrlSerializer<T>;
+    default:
+      return jsonSerializer as UrlSerializer<T>;
+  }
+}
+
+/**
+ * Returns the default parameter name of a key, such as "main.filters.page".
+ */
+export function getUrlParamName(path: string[], key: string): string {
+  return [...path, key].join(".");
+}
+
+type UrlLocation = NonNullable<UrlBinding<unknown>["location"]>;
+
+function getParams(location: UrlLocation) {
+  return new URLSearchParams(
+    location === "hash"
+      ? window.location.hash.slice(1)
+      : window.location.search,
+  );
+}
+
+/**
+ * Reads a URL parameter, or null if it is absent.
+ */
+export function readUrlParam(
+  name: string,
+  location: UrlLocation,
+): string | null {
+  return getParams(location).get(name);
+}
+
+/**
+ * Sets a URL parameter, or removes it when text is null, through the
+ * History API. Nothing is written if the parameter is unchanged.
+ */
+export function writeUrlParam(
+  name: string,
+  text: string | null,
+  location: UrlLocation,
+  history: NonNullable<UrlBinding<unknown>["history"]>,
+): void {
+  const params = getParams(location);
+  if (params.get(name) === text) {
+    return;
+  }
+  if (text === null) {
+    params.delete(name);
+  } else {
+    params.set(name, text);
+  }
+
+  const url = new URL(window.location.href);
+  const query = params.toString();
+  if (location === "hash") {
+    url.hash = query;
+  } else {
+    url.search = query;
+  }
+  if (history === "push") {
+    window.history.pushState(window.history.state, "", url);
+  } else {
+    window.history.replaceState(window.history.state, "", url);
+  }
+}
+
+/**
+ * Calls listener when the URL changes through navigation, returning a
+ * function that stops listening.
+ */
+export function subscribeUrl(listener: () => void): () => void {
+  window.addEventListener("popstate", listener);
+  window.addEventListener("hashchange", listener);
+  return () => {
+    window.removeEventListener("popstate", listener);
+    window.removeEventListener("hashchange", listener);
+  };
+}
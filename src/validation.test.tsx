@@ -0,0 +1,187 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { cleanup, render, fireEvent, screen } from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import {
+  StateNamespaceProvider,
+  useStateNamespaceAtom,
+  useStateNamespaceReducerAtom,
+} from "./jotai-persist";
+import { InvalidNamespaceValueError } from "./validation";
+
+afterEach(cleanup);
+
+const parseCount = (value: unknown) => {
+  if (typeof value !== "number") {
+    throw new Error("expected a number");
+  }
+  return value;
+};
+
+const parseList = (value: unknown) => {
+  if (!Array.isArray(value)) {
+    throw new Error("expected an array");
+  }
+  return value as string[];
+};
+
+function Counter() {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0, {
+    parse: parseCount,
+  });
+  return (
+    <button data-testid="count" onClick={() => setCount((c) => c + 1)}>
+      {count}
+    </button>
+  );
+}
+
+describe("validated keys", () => {
+  it("falls back to the default and quarantines invalid values", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: { main: { count: "seven" } },
+    });
+    const store = createStore();
+    const onError = vi.fn();
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider
+          rootAtom={rootAtom}
+          namespace="main"
+          onError={onError}
+        >
+          <Counter />
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    expect(screen.getByTestId("count").textContent).toBe("0");
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: { main: { $invalid: { count: "seven" } } },
+    });
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    const error = onError.mock.calls[0][0];
+    expect(error).toBeInstanceOf(InvalidNamespaceValueError);
+    expect(error.path).toEqual(["main"]);
+    expect(error.key).toBe("count");
+    expect(error.value).toBe("seven");
+    expect(error.message).toBe(
+      "invalid persisted value for main/count: expected a number",
+    );
+
+    fireEvent.click(screen.getByTestId("count"));
+    expect(store.get(rootAtom)).toEqual({
+      $layout: 1,
+      $children: { main: { count: 1, $invalid: { count: "seven" } } },
+    });
+  });
+
+  it("reads valid values unchanged", () => {
+    const rootAtom = atom<Record<string, unknown>>({ count: 4 });
+    const onError = vi.fn();
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} onError={onError}>
+        <Counter />
+      </StateNamespaceProvider>,
+    );
+
+    expect(screen.getByTestId("count").textContent).toBe("4");
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("reports errors to the nearest provider with onError", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      $children: { outer: { $children: { inner: { count: {} } } } },
+    });
+    const outerError = vi.fn();
+
+    render(
+      <StateNamespaceProvider
+        rootAtom={rootAtom}
+        namespace="outer"
+        onError={outerError}
+      >
+        <StateNamespaceProvider namespace="inner">
+          <Counter />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>,
+    );
+
+    expect(outerError).toHaveBeenCalledTimes(1);
+    expect(outerError.mock.calls[0][0].path).toEqual(["outer", "inner"]);
+  });
+
+  it("validates reducer state", () => {
+    const rootAtom = atom<Record<string, unknown>>({
+      $layout: 1,
+      items: { a: 1 },
+    });
+    const onError = vi.fn();
+    const reducer = (state: string[], item: string) => [...state, item];
+    const initialItems: string[] = [];
+
+    function Items() {
+      const [items, add] = useStateNamespaceReducerAtom(
+        null,
+        "items",
+        reducer,
+        initialItems,
+        { parse: parseList },
+      );
+      return (
+        <button data-testid="items" onClick={() => add("x")}>
+          {items.join(",")}
+        </button>
+      );
+    }
+
+    render(
+      <StateNamespaceProvider rootAtom={rootAtom} onError={onError}>
+        <Items />
+      </StateNamespaceProvider>,
+    );
+
+    const button = screen.getByTestId("items");
+    expect(button.textContent).toBe("");
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(button);
+    expect(button.textContent).toBe("x");
+  });
+
+  it("treats failing migrations as invalid values", () => {
+    const rootAtom = atom<Record<string, unknown>>({ count: 2 });
+    const store = createStore();
+    const onError = vi.fn();
+    const options = {
+      version: 1,
+      migrations: [
+        () => {
+          throw new Error("cannot migrate");
+        },
+      ],
+    };
+
+    function MigratedCounter() {
+      const [count] = useStateNamespaceAtom(null, "count", 0, options);
+      return <span data-testid="migrated">{count}</span>;
+    }
+
+    render(
+      <Provider store={store}>
+        <StateNamespaceProvider rootAtom={rootAtom} onError={onError}>
+          <MigratedCounter />
+        </StateNamespaceProvider>
+      </Provider>,
+    );
+
+    expect(screen.getByTestId("migrated").textContent).toBe("0");
+    expect(onError.mock.calls[0][0].cause).toEqual(new Error("cannot migrate"));
+    expect(store.get(rootAtom)).toEqual({ $invalid: { count: 2 }, $layout: 1 });
+  });
+});
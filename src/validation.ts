@@ -0,0 +1,201 @@
+import type { StoredEntry } from "./atom-cache.js";
+import {
+  getKeyVersion,
+  migrateValue,
+  setKeyVersion,
+  type Migration,
+} from "./migrations.js";
+import {
+  confirmNamespaces,
+  getKeyValue,
+  restoreMigratedChild,
+  updateDeepNode,
+} from "./namespace-tree.js";
+
+/**
+ * Parses a persisted value, returning it as T or throwing if it is invalid.
+ * Schema libraries can be passed directly, e.g. `z.array(todo).parse`.
+ */
+export type ValueParser<T> = (value: unknown) => T;
+
+/**
+ * Reserved namespace entry holding values that failed validation, by key.
+ */
+export const INVALID_VALUES_KEY = "$invalid";
+
+/**
+ * Error reported when a persisted value fails migration or validation
+ */
+export class InvalidNamespaceValueError extends Error {
+  /** The namespace path of the key */
+  readonly path: string[];
+  /** The key holding the invalid value */
+  readonly key: string;
+  /** The rejected persisted value */
+  readonly value: unknown;
+  /** The error thrown by the migration or parser */
+  readonly cause: unknown;
+
+  constructor(path: string[], key: string, value: unknown, cause: unknown) {
+    super(
+      `invalid persisted value for ${[...path, key].join("/")}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = "InvalidNamespaceValueError";
+    this.path = path;
+    this.key = key;
+    this.value = value;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Moves an invalid value out of the way, keeping it under INVALID_VALUES_KEY.
+ * The key then reads as its default until it is written again.
+ *
+ * @param node - The namespace node holding the key
+ * @param key - The key holding the invalid value
+ * @returns A copy of the node with the value quarantined
+ */
+export function quarantineValue(
+  node: Record<string, unknown>,
+  key: string,
+): Record<string, unknown> {
+  const { [key]: value, ...rest } = node;
+  const invalid = {
+    ...(node[INVALID_VALUES_KEY] as Record<string, unknown> | undefined),
+    [key]: value,
+  };
+  return setKeyVersion({ ...rest, [INVALID_VALUES_KEY]: invalid }, key, 0);
+}
+
+/**
+ * How the stored value of a key is migrated and validated
+ */
+export type StoredValueOptions<T> = {
+  /** Schema version of the stored value, defaults to 0 */
+  version?: number;
+  /** Migrations applied lazily on read, migrations[i] upgrades version i */
+  migrations?: Migration[];
+  /** Validates the stored value, throwing if it is invalid */
+  parse?: ValueParser<T>;
+};
+
+/**
+ * A stored value read at the declared schema version
+ */
+export type StoredValue<T> = {
+  value: T;
+  /** Why the stored value was rejected, if it was */
+  error?: InvalidNamespaceValueError;
+  /** Set for values stored by a newer schema, which must not be overwritten */
+  readOnly?: boolean;
+};
+
+/**
+ * Migrates and validates a stored entry, capturing any failure. Values
+ * stored at a newer version than declared read as the default and are
+ * flagged read-only, so older code neither parses nor overwrites them.
+ *
+ * @param entry - The stored value and the version it was stored under
+ * @param path - Namespace path of the key
+ * @param key - The key
+ * @param defaultValue - Value read when nothing valid is stored
+ * @param options - The declared version, migrations and parser
+ * @returns The value, and the error if the stored value was rejected
+ */
+export function readStoredValue<T>(
+  { stored, version: storedVersion }: StoredEntry,
+  path: string[],
+  key: string,
+  defaultValue: T,
+  { version = 0, migrations = [], parse }: StoredValueOptions<T>,
+): StoredValue<T> {
+  if (stored == null) {
+    return { value: defaultValue };
+  }
+  if (storedVersion > version) {
+    return {
+      value: defaultValue,
+      error: new InvalidNamespaceValueError(
+        path,
+        key,
+        stored,
+        new Error(
+          `stored at schema version ${storedVersion}, newer than ${version}`,
+        ),
+      ),
+      readOnly: true,
+    };
+  }
+  try {
+    const migrated = migrateValue(stored, storedVersion, version, migrations);
+    return { value: parse ? parse(migrated) : (migrated as T) };
+  } catch (err) {
+    return {
+      value: defaultValue,
+      error: new InvalidNamespaceValueError(path, key, stored, err),
+    };
+  }
+}
+
+/**
+ * Reads a key of a namespace node with readStoredValue, including an object
+ * value the layout migration moved to the node's children.
+ */
+export function readKeyValue<T>(
+  node: Record<string, unknown>,
+  path: string[],
+  key: string,
+  defaultValue: T,
+  options: StoredValueOptions<T>,
+): StoredValue<T> {
+  return readStoredValue(
+    { stored: getKeyValue(node, key), version: getKeyVersion(node, key) },
+    path,
+    key,
+    defaultValue,
+    options,
+  );
+}
+
+/**
+ * Writes a key, stamped with its declared version. getValue receives the
+ * value read with readKeyValue. Invalid stored values are quarantined, and
+ * values stored by a newer schema are left as they are.
+ *
+ * @param state - The state tree
+ * @param path - Namespace path of the key
+ * @param key - The key
+ * @param defaultValue - Value passed to getValue when nothing valid is stored
+ * @param options - The declared version, migrations and parser
+ * @param getValue - Returns the value to write from the current one
+ * @returns The updated state tree
+ */
+export function writeKeyValue<T>(
+  state: Record<string, unknown>,
+  path: string[],
+  key: string,
+  defaultValue: T,
+  options: StoredValueOptions<T>,
+  getValue: (prev: T) => T,
+): Record<string, unknown> {
+  const version = options.version ?? 0;
+  return updateDeepNode(confirmNamespaces(state, path), path, (storedNode) => {
+    const prevNode = restoreMigratedChild(storedNode, key);
+    const stored = readKeyValue(prevNode, path, key, defaultValue, options);
+    if (stored.readOnly) {
+      return storedNode;
+    }
+    const newValue = getValue(stored.value);
+    if (stored.error) {
+      // Quarantine the invalid value so it stays inspectable.
+      const quarantined = quarantineValue(prevNode, key);
+      return Object.is(newValue, stored.value)
+        ? quarantined
+        : setKeyVersion({ ...quarantined, [key]: newValue }, key, version);
+    }
+    return setKeyVersion({ ...prevNode, [key]: newValue }, key, version);
+  });
+}
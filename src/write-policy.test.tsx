@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { atom, createStore, Provider } from "jotai";
+import {
+  StateNamespaceProvider,
+  useStateNamespaceAtom,
+  type NamespaceRootAtom,
+} from "./jotai-persist";
+import { flushNamespaceWrites, type WritePolicy } from "./write-policy";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+// Root atom that records every write reaching it.
+function createRecordingRootAtom() {
+  const writes: Record<string, unknown>[] = [];
+  const stateAtom = atom<Record<string, unknown>>({});
+  const rootAtom: NamespaceRootAtom = atom(
+    (get) => get(stateAtom),
+    (get, set, update) => {
+      const next =
+        typeof update === "function" ? update(get(stateAtom)) : update;
+      writes.push(next);
+      set(stateAtom, next);
+    },
+  );
+  return { rootAtom, writes };
+}
+
+// State tree with the main namespace's count.
+const mainTree = (count: number) => ({
+  $layout: 1,
+  $children: { main: { count } },
+});
+
+function Counter() {
+  const [count, setCount] = useStateNamespaceAtom(null, "count", 0);
+  return (
+    <button data-testid="count" onClick={() => setCount((c) => c + 1)}>
+      {count}
+    </button>
+  );
+}
+
+function renderCounter(rootAtom: NamespaceRootAtom, writePolicy: WritePolicy) {
+  const store = createStore();
+  render(
+    <Provider store={store}>
+      <StateNamespaceProvider rootAtom={rootAtom} writePolicy={writePolicy}>
+        <StateNamespaceProvider namespace="main">
+          <Counter />
+        </StateNamespaceProvider>
+      </StateNamespaceProvider>
+    </Provider>,
+  );
+  return store;
+}
+
+function clickTimes(times: number) {
+  for (let i = 0; i < times; i++) {
+    fireEvent.click(screen.getByTestId("count"));
+  }
+}
+
+describe("atomWithWritePolicy", () => {
+  it("debounces writes into a single persisted write", () => {
+    const { rootAtom, writes } = createRecordingRootAtom();
+    renderCounter(rootAtom, { type: "debounce", wait: 100 });
+
+    clickTimes(3);
+    expect(screen.getByTestId("count").textContent).toBe("3");
+    expect(writes).toEqual([]);
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(writes).toEqual([mainTree(3)]);
+  });
+
+  it("flushes debounced writes after maxWait", () => {
+    const { rootAtom, writes } = createRecordingRootAtom();
+    renderCounter(rootAtom, { type: "debounce", wait: 100, maxWait: 150 });
+
+    clickTimes(1);
+    act(() => {
+      vi.advanceTimersByTime(80);
+    });
+    clickTimes(1);
+    act(() => {
+      vi.advanceTimersByTime(80);
+    });
+    expect(writes).toEqual([mainTree(2)]);
+  });
+
+  it("throttles writes to one per interval", () => {
+    const { rootAtom, writes } = createRecordingRootAtom();
+    renderCounter(rootAtom, { type: "throttle", wait: 100 });
+
+    clickTimes(2);
+    act(() => {
+      vi.advanceTimersByTime(60);
+    });
+    clickTimes(2);
+    act(() => {
+      vi.advanceTimersByTime(40);
+    });
+    expect(writes).toEqual([mainTree(4)]);
+
+    clickTimes(1);
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(writes).toHaveLength(2);
+  });
+
+  it("writes on idle", () => {
+    const { rootAtom, writes } = createRecordingRootAtom();
+    renderCounter(rootAtom, { type: "idle", timeout: 50 });
+
+    clickTimes(2);
+    expect(writes).toEqual([]);
+    act(() => {
+      vi.runAllTimers();
+    });
+    expect(writes).toEqual([mainTree(2)]);
+  });
+
+  it("flushes pending writes explicitly and on page hide", () => {
+    const { rootAtom, writes } = createRecordingRootAtom();
+    renderCounter(rootAtom, { type: "debounce", wait: 1000 });
+
+    clickTimes(2);
+    act(() => {
+      flushNamespaceWrites();
+    });
+    expect(writes).toEqual([mainTree(2)]);
+
+    clickTimes(1);
+    act(() => {
+      window.dispatchEvent(new Event("pagehide"));
+    });
+    expect(writes).toEqual([mainTree(2), mainTree(3)]);
+
+    // Nothing is left to write once the timer fires.
+    act(() => {
+      vi.runAllTimers();
+    });
+    expect(writes).toHaveLength(2);
+  });
+
+  it("keeps writes made to the wrapped atom while buffering", () => {
+    const { rootAtom, writes } = createRecordingRootAtom();
+    const store = renderCounter(rootAtom, { type: "debounce", wait: 100 });
+
+    clickTimes(1);
+    act(() => {
+      store.set(rootAtom, (state) => ({ ...state, title: "other" }));
+    });
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(writes[writes.length - 1]).toEqual({
+      ...mainTree(1),
+      title: "other",
+    });
+  });
+});
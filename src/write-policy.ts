@@ -0,0 +1,183 @@
+import { atom, type SetStateAction } from "jotai";
+import type { NamespaceRootAtom } from "./jotai-persist.js";
+import {
+  applyUpdate,
+  isMaintenanceUpdate,
+  markMaintenanceUpdate,
+} from "./namespace-tree.js";
+
+/**
+ * Controls when buffered namespace writes reach the root atom's storage
+ */
+export type WritePolicy =
+  /** Flush once no write has happened for `wait` ms, and at least every `maxWait` ms */
+  | { type: "debounce"; wait: number; maxWait?: number }
+  /** Flush at most once every `wait` ms */
+  | { type: "throttle"; wait: number }
+  /** Flush when the browser is idle, or after `timeout` ms */
+  | { type: "idle"; timeout?: number };
+
+// Flush callbacks of every buffered atom with pending writes.
+const pendingFlushes = new Set<() => void>();
+
+/**
+ * Immediately persists all buffered namespace writes.
+ * Runs automatically when the page is hidden, and can be called from tests.
+ */
+export function flushNamespaceWrites(): void {
+  for (const flush of [...pendingFlushes]) {
+    flush();
+  }
+}
+
+let pageListenersAdded = false;
+
+// Flushes pending writes before the page is hidden or unloaded.
+function addPageListeners() {
+  if (pageListenersAdded || typeof window === "undefined") {
+    return;
+  }
+  pageListenersAdded = true;
+  window.addEventListener("pagehide", flushNamespaceWrites);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") {
+      flushNamespaceWrites();
+    }
+  });
+}
+
+type Scheduler = {
+  // Schedules the latest flush callback, replacing any earlier one.
+  schedule(flush: () => void): void;
+  cancel(): void;
+};
+
+// Creates a timer-based scheduler implementing the write policy.
+function createScheduler(policy: WritePolicy): Scheduler {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let maxTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleHandle: number | undefined;
+  let latestFlush: (() => void) | undefined;
+
+  const cancel = () => {
+    clearTimeout(timer);
+    clearTimeout(maxTimer);
+    if (idleHandle !== undefined) {
+      cancelIdleCallback(idleHandle);
+    }
+    timer = maxTimer = idleHandle = latestFlush = undefined;
+  };
+
+  const run = () => {
+    const flush = latestFlush;
+    cancel();
+    flush?.();
+  };
+
+  const schedule = (flush: () => void) => {
+    latestFlush = flush;
+    switch (policy.type) {
+      case "debounce":
+        clearTimeout(timer);
+        timer = setTimeout(run, policy.wait);
+        if (policy.maxWait !== undefined && maxTimer === undefined) {
+          maxTimer = setTimeout(run, policy.maxWait);
+        }
+        break;
+      case "throttle":
+        timer ??= setTimeout(run, policy.wait);
+        break;
+      case "idle":
+        if (typeof requestIdleCallback === "function") {
+          idleHandle ??= requestIdleCallback(run, { timeout: policy.timeout });
+        } else {
+          timer ??= setTimeout(run, policy.timeout ?? 0);
+        }
+        break;
+    }
+  };
+
+  return { schedule, cancel };
+}
+
+type PendingWrites = {
+  updates: SetStateAction<Record<string, unknown>>[];
+  // The root state the buffered state was computed from.
+  base: Record<string, unknown>;
+  state: Record<string, unknown>;
+};
+
+/**
+ * Wraps a root atom so writes update memory right away but are coalesced
+ * into a single write to the wrapped atom according to the policy.
+ *
+ * @param {NamespaceRootAtom} rootAtom - The atom to buffer writes to
+ * @param {WritePolicy} policy - When to flush buffered writes
+ * @returns {NamespaceRootAtom} The buffering atom
+ */
+export function atomWithWritePolicy(
+  rootAtom: NamespaceRootAtom,
+  policy: WritePolicy,
+): NamespaceRootAtom {
+  const scheduler = createScheduler(policy);
+  const pendingAtom = atom<PendingWrites | null>(null);
+  let pendingFlush: (() => void) | null = null;
+
+  const flushAtom = atom(null, (get, set) => {
+    const pending = get(pendingAtom);
+    if (!pending) {
+      return;
+    }
+    set(pendingAtom, null);
+    const replay = (state: Record<string, unknown>) =>
+      pending.updates.reduce(applyUpdate, state);
+    // A flush of maintenance writes only, such as access stamps, stays one.
+    set(
+      rootAtom,
+      pending.updates.every(isMaintenanceUpdate)
+        ? markMaintenanceUpdate(replay)
+        : replay,
+    );
+  });
+
+  const bufferedAtom: NamespaceRootAtom = atom(
+    (get) => {
+      const state = get(rootAtom);
+      const pending = get(pendingAtom);
+      if (!pending) {
+        return state;
+      }
+      // Replay only if the wrapped atom changed underneath the buffer.
+      return pending.base === state
+        ? pending.state
+        : pending.updates.reduce(applyUpdate, state);
+    },
+    (get, set, update) => {
+      const pending = get(pendingAtom);
+      set(pendingAtom, {
+        updates: [...(pending?.updates ?? []), update],
+        base: get(rootAtom),
+        state: applyUpdate(get(bufferedAtom), update),
+      });
+
+      // Only the latest flush is kept, it replays every buffered update.
+      if (pendingFlush) {
+        pendingFlushes.delete(pendingFlush);
+      }
+      const flush = () => {
+        pendingFlushes.delete(flush);
+        if (pendingFlush === flush) {
+          pendingFlush = null;
+          scheduler.cancel();
+        }
+        set(flushAtom);
+      };
+      pendingFlush = flush;
+      pendingFlushes.add(flush);
+      addPageListeners();
+      scheduler.schedule(flush);
+    },
+  );
+
+  return bufferedAtom;
+}